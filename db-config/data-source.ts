@@ -8,9 +8,11 @@ export const developmentConfig: DataSourceOptions = {
   username: 'postgres',
   password: 'admin',
   database: 'development',
-  synchronize: true,
+  // The schema comes from the migrations, which run on start
+  synchronize: false,
+  migrationsRun: true,
   entities: [join(__dirname, '..', '**', '*.entity.{ts,js}')],
-  migrations: ['dist/db-config/migrations/*.js'],
+  migrations: [join(__dirname, 'migrations', '*.{ts,js}')],
 };
 
 export const testConfig: DataSourceOptions = {
@@ -20,7 +22,7 @@ export const testConfig: DataSourceOptions = {
   username: 'postgres',
   password: 'admin', // Replace with test database password
   database: 'test', // Replace with test database name
-  synchronize: true,
+  synchronize: false,
   entities: ['src/**/*.entity.ts', 'dist/**/*.entity.js'],
-  migrations: ['dist/db-config/migrations/*.js'],
+  migrations: [join(__dirname, 'migrations', '*.{ts,js}')],
 };
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// The schema from before migrations, databases that synchronize created back then already have it
+export class InitialSchema1792357981532 implements MigrationInterface {
+  name = 'InitialSchema1792357981532';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasTable('users')) {
+      return;
+    }
+    await queryRunner.query(
+      `CREATE TABLE "refresh_token" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "token" character varying NOT NULL, "expiresIn" bigint NOT NULL, "toBeDeletedAt" TIMESTAMP WITH TIME ZONE, "userId" uuid, CONSTRAINT "PK_b575dd3c21fb0831013c909e7fe" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_8e913e288156c133999341156a" ON "refresh_token" ("userId") `,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."users_provider_enum" AS ENUM('google', 'apple', 'none')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."users_role_enum" AS ENUM('user', 'admin')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "users" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "email" character varying NOT NULL, "phoneNumber" character varying NOT NULL, "googleId" character varying, "provider" "public"."users_provider_enum" NOT NULL DEFAULT 'none', "password" character varying, "role" "public"."users_role_enum" NOT NULL DEFAULT 'user', "status" character varying NOT NULL DEFAULT 'active', "tokenVersion" integer NOT NULL DEFAULT '0', "isEmailVerified" boolean NOT NULL DEFAULT false, "isPhoneVerified" boolean NOT NULL DEFAULT false, "isTwoFactorAuthEnabled" boolean NOT NULL DEFAULT false, "twoFactorAuthToken" character varying, "twoFactorAuthTokenExpiry" TIMESTAMP, "verifyEmailToken" character varying, "verifyEmailExpires" TIMESTAMP, "verifyPhoneToken" character varying, "verifyPhoneExpires" TIMESTAMP, "passwordResetCode" character varying, "passwordResetExpires" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"), CONSTRAINT "UQ_1e3d0240b49c40521aaeb953293" UNIQUE ("phoneNumber"), CONSTRAINT "PK_a3ffb1c0c8416b9fc6f907b7433" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_50eeebc27efc877c0aa4d81e17" ON "users" ("googleId", "email", "id") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" ADD CONSTRAINT "FK_8e913e288156c133999341156ad" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" DROP CONSTRAINT "FK_8e913e288156c133999341156ad"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_50eeebc27efc877c0aa4d81e17"`,
+    );
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`DROP TYPE "public"."users_role_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."users_provider_enum"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_8e913e288156c133999341156a"`,
+    );
+    await queryRunner.query(`DROP TABLE "refresh_token"`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class RotateRefreshTokens1792358719267 implements MigrationInterface {
+  name = 'RotateRefreshTokens1792358719267';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" ADD "usedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" ADD "replacedById" uuid`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" DROP COLUMN "replacedById"`,
+    );
+    await queryRunner.query(`ALTER TABLE "refresh_token" DROP COLUMN "usedAt"`);
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Refresh tokens used to be stored as plaintext JWTs, this keeps existing rows
+// usable by replacing every token with its sha256 hash before dropping the column.
+export class HashRefreshTokens1792358739112 implements MigrationInterface {
+  name = 'HashRefreshTokens1792358739112';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" ADD "tokenHash" character varying(64)`,
+    );
+    await queryRunner.query(
+      `UPDATE "refresh_token" SET "tokenHash" = encode(sha256(convert_to("token", 'UTF8')), 'hex')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" ALTER COLUMN "tokenHash" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_204f27bcee2b705b8230beaf41" ON "refresh_token" ("tokenHash") `,
+    );
+    await queryRunner.query(`ALTER TABLE "refresh_token" DROP COLUMN "token"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Hashed tokens cannot be turned back into JWTs, so their holders have to log in again
+    await queryRunner.query(`DELETE FROM "refresh_token"`);
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" ADD "token" character varying NOT NULL`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_204f27bcee2b705b8230beaf41"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_token" DROP COLUMN "tokenHash"`,
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOAuthProvider1792359231870 implements MigrationInterface {
+  name = 'AddOAuthProvider1792359231870';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "oauth_clients" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "clientId" character varying NOT NULL, "clientSecretHash" character varying(64), "name" character varying NOT NULL, "redirectUris" text array NOT NULL, "allowedScopes" text array NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_c4759172d3431bae6f04e678e0d" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_b0c094fe1ef0a6c4af8f2b10be" ON "oauth_clients" ("clientId") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "oauth_consents" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "scopes" text array NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "userId" uuid, "clientId" uuid, CONSTRAINT "PK_0a4d44789a8f412ccdbed87a590" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_ecf320f8f52781a32538a25ee6" ON "oauth_consents" ("userId", "clientId") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "oauth_authorization_codes" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "codeHash" character varying(64) NOT NULL, "redirectUri" character varying NOT NULL, "scope" character varying NOT NULL, "nonce" character varying, "codeChallenge" character varying NOT NULL, "authTime" TIMESTAMP WITH TIME ZONE NOT NULL, "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL, "usedAt" TIMESTAMP WITH TIME ZONE, "sessionId" uuid, "clientId" uuid, "userId" uuid, CONSTRAINT "PK_441350d3fce3606534fbb2c1197" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_58bb94603eb30f80714a60921b" ON "oauth_authorization_codes" ("codeHash") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "session" ADD "clientId" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "session" ADD "scope" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "oauth_consents" ADD CONSTRAINT "FK_87e894a79e1370638faa24f66ae" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "oauth_consents" ADD CONSTRAINT "FK_d9641f60c3b67880fe392c26f33" FOREIGN KEY ("clientId") REFERENCES "oauth_clients"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "oauth_authorization_codes" ADD CONSTRAINT "FK_64d965bd072ea24fb6da55468cd" FOREIGN KEY ("clientId") REFERENCES "oauth_clients"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "oauth_authorization_codes" ADD CONSTRAINT "FK_aa8d3560484944c19bdf79ffa16" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "oauth_authorization_codes" DROP CONSTRAINT "FK_aa8d3560484944c19bdf79ffa16"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "oauth_authorization_codes" DROP CONSTRAINT "FK_64d965bd072ea24fb6da55468cd"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "oauth_consents" DROP CONSTRAINT "FK_d9641f60c3b67880fe392c26f33"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "oauth_consents" DROP CONSTRAINT "FK_87e894a79e1370638faa24f66ae"`,
+    );
+    await queryRunner.query(`ALTER TABLE "session" DROP COLUMN "scope"`);
+    await queryRunner.query(`ALTER TABLE "session" DROP COLUMN "clientId"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_58bb94603eb30f80714a60921b"`,
+    );
+    await queryRunner.query(`DROP TABLE "oauth_authorization_codes"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ecf320f8f52781a32538a25ee6"`,
+    );
+    await queryRunner.query(`DROP TABLE "oauth_consents"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_b0c094fe1ef0a6c4af8f2b10be"`,
+    );
+    await queryRunner.query(`DROP TABLE "oauth_clients"`);
+  }
+}
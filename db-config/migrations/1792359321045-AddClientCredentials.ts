@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddClientCredentials1792359321045 implements MigrationInterface {
+  name = 'AddClientCredentials1792359321045';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "oauth_clients" ADD "grantTypes" text array NOT NULL DEFAULT '{authorization_code,refresh_token}'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "oauth_clients" DROP COLUMN "grantTypes"`,
+    );
+  }
+}
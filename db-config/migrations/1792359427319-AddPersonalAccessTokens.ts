@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPersonalAccessTokens1792359427319
+  implements MigrationInterface
+{
+  name = 'AddPersonalAccessTokens1792359427319';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "personal_access_token" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "name" character varying NOT NULL, "tokenHash" character varying(64) NOT NULL, "scopes" text array NOT NULL, "expiresAt" TIMESTAMP WITH TIME ZONE, "lastUsedAt" TIMESTAMP WITH TIME ZONE, "lastUsedIp" character varying, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "userId" uuid, CONSTRAINT "PK_4f29b258be0b657a3f81b75f0b7" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_958b73186af6fe8399bfa53f6b" ON "personal_access_token" ("userId") `,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_81a15948ad1501b0cd1b9569f6" ON "personal_access_token" ("tokenHash") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "personal_access_token" ADD CONSTRAINT "FK_958b73186af6fe8399bfa53f6ba" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "personal_access_token" DROP CONSTRAINT "FK_958b73186af6fe8399bfa53f6ba"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_81a15948ad1501b0cd1b9569f6"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_958b73186af6fe8399bfa53f6b"`,
+    );
+    await queryRunner.query(`DROP TABLE "personal_access_token"`);
+  }
+}
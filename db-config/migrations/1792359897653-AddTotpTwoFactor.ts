@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTotpTwoFactor1792359897653 implements MigrationInterface {
+  name = 'AddTotpTwoFactor1792359897653';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."users_twofactormethod_enum" AS ENUM('email', 'totp')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "twoFactorMethod" "public"."users_twofactormethod_enum" NOT NULL DEFAULT 'email'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "totpSecret" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "pendingTotpSecret" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "totpLastUsedStep" integer`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "totpLastUsedStep"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "pendingTotpSecret"`,
+    );
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "totpSecret"`);
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "twoFactorMethod"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."users_twofactormethod_enum"`);
+  }
+}
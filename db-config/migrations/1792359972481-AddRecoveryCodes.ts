@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRecoveryCodes1792359972481 implements MigrationInterface {
+  name = 'AddRecoveryCodes1792359972481';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "recovery_code" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "codeHash" character varying(64) NOT NULL, "usedAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "userId" uuid, CONSTRAINT "PK_b7f1e23329e93a80e25fd281922" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_0e10289994b9a90be4cde06e15" ON "recovery_code" ("userId") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "recovery_code" ADD CONSTRAINT "FK_0e10289994b9a90be4cde06e15c" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "recovery_code" DROP CONSTRAINT "FK_0e10289994b9a90be4cde06e15c"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_0e10289994b9a90be4cde06e15"`,
+    );
+    await queryRunner.query(`DROP TABLE "recovery_code"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWebAuthnCredentials1792360184926 implements MigrationInterface {
+  name = 'AddWebAuthnCredentials1792360184926';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "webauthn_credentials" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "credentialId" character varying NOT NULL, "publicKey" text NOT NULL, "algorithm" integer NOT NULL, "signCount" bigint NOT NULL DEFAULT '0', "transports" text array NOT NULL DEFAULT '{}', "backedUp" boolean NOT NULL DEFAULT false, "name" character varying NOT NULL, "lastUsedAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "userId" uuid, CONSTRAINT "PK_f5a100358f652926a5abae5e431" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_4e5d1a5131f49fdbc410b8ded0" ON "webauthn_credentials" ("userId") `,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_be2025ac9c82bdadcf340b3dfc" ON "webauthn_credentials" ("credentialId") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "webauthn_credentials" ADD CONSTRAINT "FK_4e5d1a5131f49fdbc410b8ded04" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "webauthn_credentials" DROP CONSTRAINT "FK_4e5d1a5131f49fdbc410b8ded04"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_be2025ac9c82bdadcf340b3dfc"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_4e5d1a5131f49fdbc410b8ded0"`,
+    );
+    await queryRunner.query(`DROP TABLE "webauthn_credentials"`);
+  }
+}
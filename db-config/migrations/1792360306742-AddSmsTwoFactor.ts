@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSmsTwoFactor1792360306742 implements MigrationInterface {
+  name = 'AddSmsTwoFactor1792360306742';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."users_twofactormethod_enum" RENAME TO "users_twofactormethod_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."users_twofactormethod_enum" AS ENUM('email', 'totp', 'sms')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "twoFactorMethod" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "twoFactorMethod" TYPE "public"."users_twofactormethod_enum" USING "twoFactorMethod"::"text"::"public"."users_twofactormethod_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "twoFactorMethod" SET DEFAULT 'email'`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."users_twofactormethod_enum_old"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."users_twofactormethod_enum_old" AS ENUM('email', 'totp')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "twoFactorMethod" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "twoFactorMethod" TYPE "public"."users_twofactormethod_enum_old" USING "twoFactorMethod"::"text"::"public"."users_twofactormethod_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "twoFactorMethod" SET DEFAULT 'email'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."users_twofactormethod_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."users_twofactormethod_enum_old" RENAME TO "users_twofactormethod_enum"`,
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTrustedDevices1792360503118 implements MigrationInterface {
+  name = 'AddTrustedDevices1792360503118';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "trusted_device" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "tokenHash" character varying(64) NOT NULL, "deviceName" character varying, "userAgent" character varying, "ipAddress" character varying, "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL, "lastUsedAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "userId" uuid, CONSTRAINT "PK_c8d96405f1b13d278aa087c40a4" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_d1eb900e55ae112d361a7026a3" ON "trusted_device" ("userId") `,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_4e7d0064d96b2db27e46ce008b" ON "trusted_device" ("tokenHash") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "trusted_device" ADD CONSTRAINT "FK_d1eb900e55ae112d361a7026a3c" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "trusted_device" DROP CONSTRAINT "FK_d1eb900e55ae112d361a7026a3c"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_4e7d0064d96b2db27e46ce008b"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_d1eb900e55ae112d361a7026a3"`,
+    );
+    await queryRunner.query(`DROP TABLE "trusted_device"`);
+  }
+}
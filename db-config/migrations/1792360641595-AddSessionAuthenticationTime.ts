@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSessionAuthenticationTime1792360641595
+  implements MigrationInterface
+{
+  name = 'AddSessionAuthenticationTime1792360641595';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "session" ADD "authenticatedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(`ALTER TABLE "session" ADD "amr" text array`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "session" DROP COLUMN "amr"`);
+    await queryRunner.query(
+      `ALTER TABLE "session" DROP COLUMN "authenticatedAt"`,
+    );
+  }
+}
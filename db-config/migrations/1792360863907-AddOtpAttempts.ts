@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOtpAttempts1792360863907 implements MigrationInterface {
+  name = 'AddOtpAttempts1792360863907';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "twoFactorAuthAttempts" integer NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "verifyEmailAttempts" integer NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "verifyPhoneAttempts" integer NOT NULL DEFAULT '0'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "verifyPhoneAttempts"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "verifyEmailAttempts"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "twoFactorAuthAttempts"`,
+    );
+  }
+}
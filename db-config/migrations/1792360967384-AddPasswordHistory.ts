@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPasswordHistory1792360967384 implements MigrationInterface {
+  name = 'AddPasswordHistory1792360967384';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "password_history" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "passwordHash" character varying NOT NULL, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "userId" uuid, CONSTRAINT "PK_da65ed4600e5e6bc9315754a8b2" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_20c510e5ca12f63b0c915c3e2d" ON "password_history" ("userId") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "password_history" ADD CONSTRAINT "FK_20c510e5ca12f63b0c915c3e2df" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "password_history" DROP CONSTRAINT "FK_20c510e5ca12f63b0c915c3e2df"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_20c510e5ca12f63b0c915c3e2d"`,
+    );
+    await queryRunner.query(`DROP TABLE "password_history"`);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSignInWithApple1792361179562 implements MigrationInterface {
+  name = 'AddSignInWithApple1792361179562';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "appleId" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "firstName" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "lastName" character varying`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "lastName"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "firstName"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "appleId"`);
+  }
+}
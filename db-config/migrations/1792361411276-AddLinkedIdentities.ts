@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLinkedIdentities1792361411276 implements MigrationInterface {
+  name = 'AddLinkedIdentities1792361411276';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "linked_identity" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "provider" character varying NOT NULL, "subject" character varying NOT NULL, "email" character varying, "profile" jsonb, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "lastUsedAt" TIMESTAMP WITH TIME ZONE NOT NULL, "userId" uuid, CONSTRAINT "PK_203b51fdae6d00fd0a59c635d78" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_0d8dbca008c68c1d99cbfeaa11" ON "linked_identity" ("userId") `,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_34f3cbfb1db2610184cfe5af07" ON "linked_identity" ("provider", "subject") `,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."users_provider_enum" RENAME TO "users_provider_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."users_provider_enum" AS ENUM('google', 'apple', 'github', 'microsoft', 'gitlab', 'none')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "provider" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "provider" TYPE "public"."users_provider_enum" USING "provider"::"text"::"public"."users_provider_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "provider" SET DEFAULT 'none'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."users_provider_enum_old"`);
+    await queryRunner.query(
+      `ALTER TABLE "linked_identity" ADD CONSTRAINT "FK_0d8dbca008c68c1d99cbfeaa112" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "linked_identity" DROP CONSTRAINT "FK_0d8dbca008c68c1d99cbfeaa112"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."users_provider_enum_old" AS ENUM('google', 'apple', 'none')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "provider" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "provider" TYPE "public"."users_provider_enum_old" USING "provider"::"text"::"public"."users_provider_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ALTER COLUMN "provider" SET DEFAULT 'none'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."users_provider_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."users_provider_enum_old" RENAME TO "users_provider_enum"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_34f3cbfb1db2610184cfe5af07"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_0d8dbca008c68c1d99cbfeaa11"`,
+    );
+    await queryRunner.query(`DROP TABLE "linked_identity"`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRevokedAccessTokens1792364587213 implements MigrationInterface {
+  name = 'AddRevokedAccessTokens1792364587213';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "revoked_access_token" ("id" character varying(36) NOT NULL, "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_93e2750ef286169c494e610dc4c" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_5b5ea0f0e652d8b685244fb3f5" ON "revoked_access_token" ("expiresAt") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_5b5ea0f0e652d8b685244fb3f5"`,
+    );
+    await queryRunner.query(`DROP TABLE "revoked_access_token"`);
+  }
+}
@@ -11,6 +11,7 @@ import { CacheModule } from '@nestjs/cache-manager';
 import { HttpModule } from '@nestjs/axios';
 import { CommonModule } from './common/common.module';
 import { NotificationsModule } from './notifications/notifications.module';
+import { OAuthModule } from './oauth/oauth.module';
 import { RequestLoggingMiddleware } from './common/middlewares/logs.middleware';
 import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
 import { APP_GUARD } from '@nestjs/core';
@@ -40,6 +41,7 @@ import { APP_RATE_LIMIT, APP_RATE_TTL } from './common/constants';
     HttpModule,
     CommonModule,
     NotificationsModule,
+    OAuthModule,
   ],
   controllers: [AppController],
   providers: [
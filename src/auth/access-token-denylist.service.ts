@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import { ACCESS_TOKEN_TTL } from 'src/common/constants';
+import { RevokedAccessToken } from './entities/revoked-access-token.entity';
+
+// Access tokens are not stored, so revoked ones are remembered here until they expire
+@Injectable()
+export class AccessTokenDenylistService {
+  constructor(
+    @InjectRepository(RevokedAccessToken)
+    private readonly revokedAccessTokenRepository: Repository<RevokedAccessToken>,
+  ) {}
+
+  async revokeToken(jti: string, expiresAt: number): Promise<void> {
+    // expiresAt is the exp claim, in seconds
+    if (!jti || expiresAt * 1000 <= Date.now()) {
+      return;
+    }
+    await this.revoke(jti, new Date(expiresAt * 1000));
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    // A session may have handed out several access tokens, the newest can live for the full TTL
+    await this.revoke(
+      sessionId,
+      new Date(Date.now() + ACCESS_TOKEN_TTL * 1000),
+    );
+  }
+
+  async isRevoked(payload: { jti?: string; sid?: string }): Promise<boolean> {
+    const ids = [payload.jti, payload.sid].filter(Boolean);
+    if (!ids.length) {
+      return false;
+    }
+    return await this.revokedAccessTokenRepository.existsBy({ id: In(ids) });
+  }
+
+  private async revoke(id: string, expiresAt: Date): Promise<void> {
+    // Entries whose tokens have all expired are dropped along the way
+    await this.revokedAccessTokenRepository.delete({
+      expiresAt: LessThan(new Date()),
+    });
+    await this.revokedAccessTokenRepository.upsert({ id, expiresAt }, ['id']);
+  }
+}
@@ -0,0 +1,142 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { JwtService } from '@nestjs/jwt';
+import { UnauthorizedException } from '@nestjs/common';
+import { generateKeyPairSync } from 'crypto';
+import { of } from 'rxjs';
+import { AppleIdentityService } from './apple-identity.service';
+
+const CLIENT_ID = 'com.example.web';
+
+describe('AppleIdentityService', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const jwtService = new JwtService({ secret: 'access-token-secret' });
+  let httpGet: jest.Mock;
+  let service: AppleIdentityService;
+
+  beforeEach(async () => {
+    httpGet = jest.fn(() =>
+      of({
+        data: {
+          keys: [
+            { ...publicKey.export({ format: 'jwk' }), kid: 'apple-key-1' },
+          ],
+        },
+      }),
+    );
+
+    const module = await Test.createTestingModule({
+      providers: [
+        AppleIdentityService,
+        { provide: JwtService, useValue: jwtService },
+        { provide: HttpService, useValue: { get: httpGet } },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              key === 'APPLE_CLIENT_ID'
+                ? `com.example.ios, ${CLIENT_ID}`
+                : undefined,
+          },
+        },
+      ],
+    }).compile();
+    service = module.get(AppleIdentityService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function signIdentityToken(
+    claims: object,
+    { kid = 'apple-key-1', audience = CLIENT_ID } = {},
+  ) {
+    return jwtService.sign(
+      {
+        sub: '001234.abcdef',
+        email: 'Jane@PrivateRelay.AppleID.com',
+        email_verified: 'true',
+        ...claims,
+      },
+      {
+        secret: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+        algorithm: 'RS256',
+        keyid: kid,
+        issuer: 'https://appleid.apple.com',
+        audience,
+        expiresIn: '10m',
+      },
+    );
+  }
+
+  it('verifies a token signed with one of the published keys', async () => {
+    const identity = await service.verify(
+      signIdentityToken({ nonce: 'n-1' }),
+      'n-1',
+    );
+
+    expect(identity).toEqual({
+      sub: '001234.abcdef',
+      email: 'jane@privaterelay.appleid.com',
+      emailVerified: true,
+      isPrivateEmail: true,
+    });
+    expect(httpGet).toHaveBeenCalledWith('https://appleid.apple.com/auth/keys');
+  });
+
+  it('fetches the keys once while they are fresh', async () => {
+    await service.verify(signIdentityToken({}));
+    await service.verify(signIdentityToken({}));
+
+    expect(httpGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects tokens for another app, with an unknown key or a wrong nonce', async () => {
+    await expect(
+      service.verify(signIdentityToken({}, { audience: 'com.other.app' })),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(
+      service.verify(signIdentityToken({}, { kid: 'unknown-key' })),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(
+      service.verify(signIdentityToken({ nonce: 'n-1' }), 'n-2'),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('fetches the keys again for an unknown kid at most once a minute', async () => {
+    await service.verify(signIdentityToken({}));
+    const unknownKey = signIdentityToken({}, { kid: 'unknown-key' });
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 61 * 1000);
+    await expect(service.verify(unknownKey)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    await expect(service.verify(unknownKey)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(httpGet).toHaveBeenCalledTimes(2);
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 61 * 1000);
+    await expect(service.verify(unknownKey)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(httpGet).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects tokens signed with the server secret instead of an Apple key', async () => {
+    const forged = jwtService.sign(
+      {
+        sub: '001234.abcdef',
+        iss: 'https://appleid.apple.com',
+        aud: CLIENT_ID,
+      },
+      { header: { kid: 'apple-key-1', alg: 'HS256' } },
+    );
+
+    await expect(service.verify(forged)).rejects.toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,120 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+
+const APPLE_ISSUER = 'https://appleid.apple.com';
+const JWKS_CACHE_TTL = 60 * 60 * 1000; // milliseconds
+const JWKS_REFETCH_INTERVAL = 60 * 1000; // milliseconds
+
+// Private relay addresses forward to the user's real inbox, they are unique per app
+export const APPLE_PRIVATE_RELAY_DOMAIN = 'privaterelay.appleid.com';
+
+export type AppleIdentity = {
+  sub: string;
+  email: string | null;
+  emailVerified: boolean;
+  isPrivateEmail: boolean;
+};
+
+// Verifies identity tokens from Sign in with Apple against Apple's published keys
+@Injectable()
+export class AppleIdentityService {
+  private readonly logger = new Logger(AppleIdentityService.name);
+  private readonly jwksUrl: string;
+  private readonly audiences: string[];
+  private keys: (JsonWebKey & { kid?: string })[] = [];
+  private keysFetchedAt = 0;
+  private keysRequestedAt = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpService: HttpService,
+    private readonly jwtService: JwtService,
+  ) {
+    // Point it to a local server to stub Apple in development and tests
+    this.jwksUrl =
+      this.configService.get<string>('APPLE_JWKS_URL') ||
+      `${APPLE_ISSUER}/auth/keys`;
+    // The Services ID for the web and the bundle ID for apps, comma separated
+    this.audiences = (this.configService.get<string>('APPLE_CLIENT_ID') ?? '')
+      .split(',')
+      .map((audience) => audience.trim())
+      .filter(Boolean);
+  }
+
+  async verify(identityToken: string, nonce?: string): Promise<AppleIdentity> {
+    const header = this.jwtService.decode(identityToken, {
+      complete: true,
+    })?.header;
+    const key = header?.kid ? await this.findKey(header.kid) : null;
+    if (!key || !this.audiences.length) {
+      throw new UnauthorizedException('Invalid Apple identity token.');
+    }
+
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(identityToken, {
+        secret: key,
+        algorithms: ['RS256'],
+        issuer: APPLE_ISSUER,
+        audience: this.audiences as [string, ...string[]],
+      });
+    } catch (error) {
+      throw new UnauthorizedException('Invalid Apple identity token.');
+    }
+    if (nonce && payload.nonce !== nonce) {
+      throw new UnauthorizedException('Invalid Apple identity token.');
+    }
+
+    // Apple sends the booleans as strings in some tokens
+    const email: string | null = payload.email?.toLowerCase() ?? null;
+    return {
+      sub: payload.sub,
+      email,
+      emailVerified: String(payload.email_verified) === 'true',
+      isPrivateEmail:
+        String(payload.is_private_email) === 'true' ||
+        !!email?.endsWith(`@${APPLE_PRIVATE_RELAY_DOMAIN}`),
+    };
+  }
+
+  // Apple rotates its keys, an unknown kid fetches them again, but at most once a minute
+  private async findKey(kid: string): Promise<string | null> {
+    let key = this.keys.find((candidate) => candidate.kid === kid);
+    if (
+      (!key || Date.now() - this.keysFetchedAt > JWKS_CACHE_TTL) &&
+      Date.now() - this.keysRequestedAt > JWKS_REFETCH_INTERVAL
+    ) {
+      await this.fetchKeys();
+      key = this.keys.find((candidate) => candidate.kid === kid);
+    }
+    if (!key) {
+      return null;
+    }
+    return createPublicKey({ key, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+  }
+
+  private async fetchKeys(): Promise<void> {
+    // Failed requests count too, or an outage would be retried on every login
+    this.keysRequestedAt = Date.now();
+    try {
+      const { data } = await firstValueFrom(this.httpService.get(this.jwksUrl));
+      this.keys = data?.keys ?? [];
+      this.keysFetchedAt = Date.now();
+    } catch (error) {
+      // Keep using the keys we have, Apple may be briefly unreachable
+      this.logger.error(
+        JSON.stringify({
+          action: 'fetch-apple-jwks',
+          url: this.jwksUrl,
+          error: error.message,
+        }),
+      );
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CookieOptions, Request, Response } from 'express';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import {
+  ACCESS_TOKEN_TTL,
+  API_PREFIX,
+  REFRESH_TOKEN_TTL,
+} from 'src/common/constants';
+import { AuthenticatedResponseDto } from './dtos/auth-response.dto';
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+export const CSRF_COOKIE = 'XSRF-TOKEN';
+export const CSRF_HEADER = 'x-xsrf-token';
+export const MAGIC_LINK_COOKIE = 'magic_link_binding';
+export const TRUSTED_DEVICE_COOKIE = 'trusted_device';
+export const SOCIAL_LOGIN_COOKIE = 'social_login_binding';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Browser clients can get their tokens as HttpOnly cookies instead of in the response body, see AUTH_COOKIES
+@Injectable()
+export class AuthCookiesService {
+  readonly enabled: boolean;
+  private readonly sameSite: CookieOptions['sameSite'];
+  private readonly domain: string | undefined;
+
+  constructor(private readonly configService: ConfigService) {
+    this.enabled = this.configService.get<string>('AUTH_COOKIES') === 'true';
+    this.sameSite =
+      (this.configService.get<string>(
+        'AUTH_COOKIE_SAME_SITE',
+      ) as CookieOptions['sameSite']) || 'strict';
+    this.domain = this.configService.get<string>('AUTH_COOKIE_DOMAIN');
+  }
+
+  setTokens(
+    response: Response,
+    { accessToken, refreshToken }: AuthenticatedResponseDto,
+  ): { csrfToken: string } {
+    // A new CSRF token with every login and refresh, the SPA reads it from the cookie or the body
+    const csrfToken = randomBytes(32).toString('base64url');
+
+    this.setAccessToken(response, accessToken);
+    response.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+      ...this.getCookieOptions(),
+      // Only the refresh endpoint ever needs to see the refresh token
+      path: `/${API_PREFIX}/auth/refresh-token`,
+      maxAge: REFRESH_TOKEN_TTL * 1000,
+    });
+    response.cookie(CSRF_COOKIE, csrfToken, {
+      ...this.getCookieOptions(),
+      httpOnly: false,
+      maxAge: REFRESH_TOKEN_TTL * 1000,
+    });
+
+    return { csrfToken };
+  }
+
+  setAccessToken(response: Response, accessToken: string): void {
+    response.cookie(ACCESS_TOKEN_COOKIE, accessToken, {
+      ...this.getCookieOptions(),
+      maxAge: ACCESS_TOKEN_TTL * 1000,
+    });
+  }
+
+  setTrustedDevice(response: Response, token: string, days: number): void {
+    response.cookie(TRUSTED_DEVICE_COOKIE, token, {
+      ...this.getCookieOptions(),
+      // Read at login, which is always under /auth
+      path: `/${API_PREFIX}/auth`,
+      maxAge: days * 24 * 60 * 60 * 1000,
+    });
+  }
+
+  clearTokens(response: Response): void {
+    response.clearCookie(ACCESS_TOKEN_COOKIE, this.getCookieOptions());
+    response.clearCookie(REFRESH_TOKEN_COOKIE, {
+      ...this.getCookieOptions(),
+      path: `/${API_PREFIX}/auth/refresh-token`,
+    });
+    response.clearCookie(CSRF_COOKIE, {
+      ...this.getCookieOptions(),
+      httpOnly: false,
+    });
+  }
+
+  extractAccessToken(request: Request): string | null {
+    return this.enabled ? request.cookies?.[ACCESS_TOKEN_COOKIE] ?? null : null;
+  }
+
+  extractRefreshToken(request: Request): string | null {
+    return this.enabled
+      ? request.cookies?.[REFRESH_TOKEN_COOKIE] ?? null
+      : null;
+  }
+
+  // Ties magic links to the browser that asked for them, set whether or not cookie mode is on
+  setMagicLinkBinding(request: Request, response: Response): string {
+    // Keep an existing value so every link requested from this browser stays usable
+    const binding =
+      request.cookies?.[MAGIC_LINK_COOKIE] ??
+      randomBytes(32).toString('base64url');
+
+    response.cookie(MAGIC_LINK_COOKIE, binding, {
+      ...this.getCookieOptions(),
+      path: `/${API_PREFIX}/auth/magic-link`,
+      maxAge: 15 * 60 * 1000,
+    });
+    return binding;
+  }
+
+  extractMagicLinkBinding(request: Request): string | null {
+    return request.cookies?.[MAGIC_LINK_COOKIE] ?? null;
+  }
+
+  // Ties a social login to the browser that started it, so a stranger's callback URL cannot sign the user in as the stranger
+  setSocialLoginBinding(response: Response): string {
+    const binding = randomBytes(32).toString('base64url');
+
+    response.cookie(SOCIAL_LOGIN_COOKIE, binding, {
+      ...this.getCookieOptions(),
+      path: `/${API_PREFIX}/auth/social`,
+      maxAge: 10 * 60 * 1000,
+    });
+    return binding;
+  }
+
+  extractSocialLoginBinding(request: Request): string | null {
+    return request.cookies?.[SOCIAL_LOGIN_COOKIE] ?? null;
+  }
+
+  // Double submit: a cross site form can make the browser send our cookies, but it cannot read one to copy into a header
+  verifyCsrf(request: Request): void {
+    if (
+      !this.enabled ||
+      SAFE_METHODS.includes(request.method) ||
+      request.headers.authorization ||
+      (!request.cookies?.[ACCESS_TOKEN_COOKIE] &&
+        !request.cookies?.[REFRESH_TOKEN_COOKIE])
+    ) {
+      return;
+    }
+
+    const cookie: string | undefined = request.cookies[CSRF_COOKIE];
+    const header = request.headers[CSRF_HEADER];
+    if (
+      !cookie ||
+      typeof header !== 'string' ||
+      cookie.length !== header.length ||
+      !timingSafeEqual(Buffer.from(cookie), Buffer.from(header))
+    ) {
+      throw new ForbiddenException('Invalid CSRF token.');
+    }
+  }
+
+  private getCookieOptions(): CookieOptions {
+    return {
+      httpOnly: true,
+      secure: true,
+      sameSite: this.sameSite,
+      domain: this.domain,
+      path: '/',
+    };
+  }
+}
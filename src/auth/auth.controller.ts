@@ -1,28 +1,59 @@
-import { Body, Controller, HttpStatus, Patch, Post, Res } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Req,
+  Res,
+  UseInterceptors,
+} from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { ApiTags } from '@nestjs/swagger';
 import { SignupUserDto } from './dtos/signup-user.dto';
-import { Response } from 'express';
+import { Request, Response } from 'express';
 import { GoogleLoginDto } from './dtos/google-login.dto';
+import { AppleLoginDto } from './dtos/apple-login.dto';
 import {
+  AppleLoginDecorator,
   ChangePasswordDecorator,
   ConfirmEmailSetupDecorator,
   ConfirmPhoneSetupDecorator,
+  ConsumeMagicLinkDecorator,
   DisableTwoFactorAuthDecorator,
   ForgotPasswordDecorator,
+  GetSessionsDecorator,
+  GetTrustedDevicesDecorator,
   GoogleLoginDecorator,
-  // LoginFromNewDeviceWithTwoFactorDecorator,
   LoginUsersDecorator,
   LoginWithTwoFactorDecorator,
   LogoutUsersDecorator,
+  MagicLinkDecorator,
+  ReauthenticateDecorator,
   RefreshTokenDecorator,
+  RegenerateRecoveryCodesDecorator,
   RegisterUsersDecorator,
   ResendTwoFactorAuthDecorator,
   ResendTwoFactorAuthForLoginDecorator,
   ResetPasswordDecorator,
+  RevokeOtherSessionsDecorator,
+  RevokeSessionDecorator,
+  RevokeTrustedDeviceDecorator,
+  RevokeTrustedDevicesDecorator,
+  RotateSigningKeyDecorator,
+  SendReauthenticationCodeDecorator,
+  SetupSmsTwoFactorAuthDecorator,
+  SetupTotpDecorator,
   SetupTwoFactorAuthDecorator,
+  VerifyTotpToEnableDecorator,
   VerifyEmailSetupDecorator,
   VerifyPhoneSetupDecorator,
+  VerifySmsTwoFactorAuthToEnableDecorator,
   VerifyTwoFactorAuthDecorator,
   VerifyTwoFactorAuthToDisableDecorator,
 } from './decorators';
@@ -37,13 +68,38 @@ import { UsersService } from 'src/users/users.service';
 import { TwoFactorAuthenticationService } from './two-factor.service';
 import { ValidateOtpDto } from './dtos/validate-otp.dto';
 import { Resend2faOtpDto } from './dtos/resend-2fa-otp.dto';
-import { LoginWithTwoFactorAuthenticationDto } from './dtos/login-with-2fa.dto';
+import {
+  LoginWithTwoFactorAuthenticationDto,
+  TwoFactorLoginResponseDto,
+} from './dtos/login-with-2fa.dto';
 // import { User } from '../users/entities/user.entity';
 import { Throttle } from '@nestjs/throttler';
 import { VerificationService } from './verification.service';
 import { DataToBeVerified } from './enums';
+import { SessionDto } from './dtos/session.dto';
+import { TrustedDeviceDto } from './dtos/trusted-device.dto';
+import { TrustedDevicesService } from './trusted-devices.service';
+import {
+  ReauthenticateDto,
+  ReauthenticatedResponseDto,
+} from './dtos/reauthenticate.dto';
+import { TotpSetupResponseDto } from './dtos/totp-setup.dto';
+import { RecoveryCodesDto } from './dtos/recovery-codes.dto';
+import { KeyRingService } from './key-ring.service';
+import {
+  ClientInfo,
+  CurrentClient,
+} from './decorators/current-client.decorator';
+import { AuthCookiesInterceptor } from './interceptors/auth-cookies.interceptor';
+import { AuthCookiesService } from './auth-cookies.service';
+import { MagicLinkService } from './magic-link.service';
+import {
+  ConsumeMagicLinkDto,
+  MagicLinkRequestDto,
+} from './dtos/magic-link.dto';
 
 @ApiTags('auth')
+@UseInterceptors(AuthCookiesInterceptor)
 @Controller('auth')
 export class AuthController {
   constructor(
@@ -53,28 +109,110 @@ export class AuthController {
     private readonly usersService: UsersService,
     private readonly twoFactorAuthenticationService: TwoFactorAuthenticationService,
     private readonly verificationService: VerificationService,
+    private readonly keyRingService: KeyRingService,
+    private readonly authCookiesService: AuthCookiesService,
+    private readonly magicLinkService: MagicLinkService,
+    private readonly trustedDevicesService: TrustedDevicesService,
   ) {}
 
   @RegisterUsersDecorator()
   @Post('register')
-  async registerUser(@Body() body: SignupUserDto) {
-    return await this.authService.register(body.email, body.password);
+  async registerUser(
+    @Body() body: SignupUserDto,
+    @CurrentClient() client: ClientInfo,
+  ) {
+    return await this.authService.register(body.email, body.password, client);
   }
 
   @Throttle({ default: { limit: 5, ttl: 60000 } })
   @LoginUsersDecorator()
   @Post('login')
-  async signin(@CurrentUser() user: any) {
+  async signin(@CurrentUser() user: any, @CurrentClient() client: ClientInfo) {
     if ('tempAuthToken' in user) {
       return { tempAuthToken: user.tempAuthToken };
     }
-    return await this.authService.login(user);
+    return await this.authService.login(user, client);
   }
 
   @LogoutUsersDecorator()
   @Post('logout')
-  logout(@CurrentUser() user: any) {
-    return this.authService.logout(user);
+  async logout(
+    @CurrentUser() user: any,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const result = await this.authService.logout(user);
+    if (this.authCookiesService.enabled) {
+      this.authCookiesService.clearTokens(response);
+    }
+    return result;
+  }
+
+  @GetSessionsDecorator()
+  @Get('sessions')
+  async getSessions(@CurrentUser() user: any): Promise<SessionDto[]> {
+    return await this.tokenService.findSessions(user.id, user.sessionId);
+  }
+
+  @RevokeOtherSessionsDecorator()
+  @Delete('sessions')
+  async revokeOtherSessions(
+    @CurrentUser() user: any,
+  ): Promise<{ message: string }> {
+    await this.tokenService.revokeOtherSessions(user.id, user.sessionId);
+    return { message: 'All other sessions have been revoked.' };
+  }
+
+  @RevokeSessionDecorator()
+  @Delete('sessions/:sessionId')
+  async revokeSession(
+    @CurrentUser() user: any,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ): Promise<{ message: string }> {
+    const revoked = await this.tokenService.revokeSession(user.id, sessionId);
+    if (!revoked) {
+      throw new NotFoundException('Session not found.');
+    }
+    return { message: 'Session has been revoked.' };
+  }
+
+  @GetTrustedDevicesDecorator()
+  @Get('trusted-devices')
+  async getTrustedDevices(
+    @CurrentUser() user: any,
+    @CurrentClient() client: ClientInfo,
+  ): Promise<TrustedDeviceDto[]> {
+    return await this.trustedDevicesService.findAll(
+      user.id,
+      client.trustedDeviceToken,
+    );
+  }
+
+  @RevokeTrustedDevicesDecorator()
+  @Delete('trusted-devices')
+  async revokeTrustedDevices(
+    @CurrentUser() user: any,
+  ): Promise<{ message: string }> {
+    await this.trustedDevicesService.revokeAll(user.id);
+    return { message: 'All trusted devices have been revoked.' };
+  }
+
+  @RevokeTrustedDeviceDecorator()
+  @Delete('trusted-devices/:deviceId')
+  async revokeTrustedDevice(
+    @CurrentUser() user: any,
+    @Param('deviceId', ParseUUIDPipe) deviceId: string,
+  ): Promise<{ message: string }> {
+    const revoked = await this.trustedDevicesService.revoke(user.id, deviceId);
+    if (!revoked) {
+      throw new NotFoundException('Trusted device not found.');
+    }
+    return { message: 'Trusted device has been revoked.' };
+  }
+
+  @RotateSigningKeyDecorator()
+  @Post('signing-keys/rotate')
+  async rotateSigningKey(): Promise<{ kid: string }> {
+    return await this.keyRingService.rotate();
   }
 
   @LoginWithTwoFactorDecorator()
@@ -82,8 +220,9 @@ export class AuthController {
   async loginWith2FA(
     @Body() body: LoginWithTwoFactorAuthenticationDto,
     @CurrentUser() user: any,
-  ) {
-    return await this.authService.loginWithOtp(body, user);
+    @CurrentClient() client: ClientInfo,
+  ): Promise<TwoFactorLoginResponseDto> {
+    return await this.authService.loginWithOtp(body, user, client);
   }
 
   @ResendTwoFactorAuthForLoginDecorator()
@@ -92,18 +231,74 @@ export class AuthController {
     return await this.twoFactorAuthenticationService.resend2faForLogin(body);
   }
 
-  // @LoginFromNewDeviceWithTwoFactorDecorator()
-  // @Post('login-from-new-device-with-two-factor-authentication')
-  // async loginWithOtp(
-  //   @Body() body: LoginWithTwoFactorAuthenticationDto,
-  // ): Promise<AuthenticatedResponseDto> {
-  //   return this.authService.loginWithOtpFromNewDevice(body);
-  // }
-
   @GoogleLoginDecorator()
   @Post('google-login')
-  async googleLogin(@Body() body: GoogleLoginDto) {
-    return await this.authService.googleLogin(body.credential);
+  async googleLogin(
+    @Body() body: GoogleLoginDto,
+    @CurrentClient() client: ClientInfo,
+  ) {
+    return await this.authService.googleLogin(body.credential, client);
+  }
+
+  @AppleLoginDecorator()
+  @Post('apple-login')
+  async appleLogin(
+    @Body() body: AppleLoginDto,
+    @CurrentClient() client: ClientInfo,
+  ) {
+    return await this.authService.appleLogin(body, client);
+  }
+
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @MagicLinkDecorator()
+  @Post('magic-link')
+  async sendMagicLink(
+    @Body() body: MagicLinkRequestDto,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<{ message: string }> {
+    await this.magicLinkService.send(
+      body.email,
+      this.authCookiesService.setMagicLinkBinding(request, response),
+    );
+    return {
+      message:
+        'If an account exists for this email, a sign-in link has been sent.',
+    };
+  }
+
+  @ConsumeMagicLinkDecorator()
+  @Post('magic-link/consume')
+  async consumeMagicLink(
+    @Body() body: ConsumeMagicLinkDto,
+    @Req() request: Request,
+    @CurrentClient() client: ClientInfo,
+  ) {
+    const user = await this.magicLinkService.consume(
+      body.token,
+      this.authCookiesService.extractMagicLinkBinding(request),
+    );
+    return await this.authService.login(user, client, 'magic-link');
+  }
+
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ReauthenticateDecorator()
+  @Post('reauthenticate')
+  async reauthenticate(
+    @CurrentUser() user: any,
+    @Body() body: ReauthenticateDto,
+    @CurrentClient() client: ClientInfo,
+  ): Promise<ReauthenticatedResponseDto> {
+    return await this.authService.reauthenticate(user, body, client.ipAddress);
+  }
+
+  @Throttle({ default: { limit: 1, ttl: 60000 } })
+  @SendReauthenticationCodeDecorator()
+  @Post('reauthenticate/code')
+  async sendReauthenticationCode(
+    @CurrentUser() user: any,
+  ): Promise<{ message: string }> {
+    return await this.twoFactorAuthenticationService.sendConfirmationCode(user);
   }
 
   @ChangePasswordDecorator()
@@ -111,13 +306,16 @@ export class AuthController {
   async changeMyPassword(
     @CurrentUser() user: any,
     @Body() changePasswordDto: ChangePasswordDto,
+    @CurrentClient() client: ClientInfo,
   ) {
-    this.passwordService.changePassword(user.id, changePasswordDto);
+    await this.passwordService.changePassword(user.id, changePasswordDto);
 
+    // Read back after the change, so the new tokens carry the bumped tokenVersion
     const updatedUser = await this.usersService.findOneById(user.id);
-    return await this.authService.login(updatedUser);
+    return await this.authService.login(updatedUser, client);
   }
 
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
   @ForgotPasswordDecorator()
   @Post('forgot-password')
   async forgotPassword(
@@ -126,7 +324,8 @@ export class AuthController {
   ): Promise<Response> {
     await this.passwordService.forgotPassword(body.email);
     return response.status(HttpStatus.OK).json({
-      message: 'Password reset email is sent ',
+      message:
+        'If an account exists for this email, a password reset link has been sent.',
     });
   }
 
@@ -134,10 +333,12 @@ export class AuthController {
   @Post('set-new-password')
   async resetPassword(
     @Body() body: ResetPasswordDto,
+    @CurrentClient() client: ClientInfo,
   ): Promise<AuthenticatedResponseDto> {
     return await this.passwordService.resetPassword(
       body.resetToken,
       body.newPassword,
+      client,
     );
   }
 
@@ -145,8 +346,16 @@ export class AuthController {
   @RefreshTokenDecorator()
   @Post('refresh-token')
   async refresh(@CurrentUser() user: any): Promise<AuthenticatedResponseDto> {
-    const accessToken = await this.tokenService.createAccessToken(user);
-    const refreshToken = await this.tokenService.createRefreshToken(user);
+    // Stay within the session the refresh token belongs to and rotate the used token
+    const accessToken = await this.tokenService.createAccessToken(
+      user,
+      user.sessionId,
+    );
+    const refreshToken = await this.tokenService.createRefreshToken(
+      user,
+      user.sessionId,
+      user.refreshTokenId,
+    );
 
     return {
       accessToken,
@@ -165,7 +374,7 @@ export class AuthController {
   async verify2FA(
     @CurrentUser() user: any,
     @Body() body: ValidateOtpDto,
-  ): Promise<{ message: string }> {
+  ): Promise<{ message: string; recoveryCodes?: string[] }> {
     return await this.twoFactorAuthenticationService.verify2FA(
       user,
       body,
@@ -184,7 +393,7 @@ export class AuthController {
   async disable2faLogin(
     @CurrentUser() user: any,
   ): Promise<{ message: string }> {
-    return this.twoFactorAuthenticationService.setup2FA(user.id);
+    return this.twoFactorAuthenticationService.initiateDisable2FA(user);
   }
 
   @VerifyTwoFactorAuthToDisableDecorator()
@@ -200,6 +409,46 @@ export class AuthController {
     );
   }
 
+  @SetupTotpDecorator()
+  @Post('setup-totp')
+  async setupTotp(@CurrentUser() user: any): Promise<TotpSetupResponseDto> {
+    return await this.twoFactorAuthenticationService.setupTotp(user);
+  }
+
+  @VerifyTotpToEnableDecorator()
+  @Post('verify-totp-to-enable')
+  async verifyTotpToEnable(
+    @CurrentUser() user: any,
+    @Body() body: ValidateOtpDto,
+  ): Promise<{ message: string; recoveryCodes?: string[] }> {
+    return await this.twoFactorAuthenticationService.enableTotp(user, body);
+  }
+
+  @SetupSmsTwoFactorAuthDecorator()
+  @Post('setup-sms-2fa')
+  async setupSms2fa(@CurrentUser() user: any): Promise<{ message: string }> {
+    return await this.twoFactorAuthenticationService.setupSms2FA(user);
+  }
+
+  @VerifySmsTwoFactorAuthToEnableDecorator()
+  @Post('verify-sms-2fa-to-enable')
+  async verifySms2faToEnable(
+    @CurrentUser() user: any,
+    @Body() body: ValidateOtpDto,
+  ): Promise<{ message: string; recoveryCodes?: string[] }> {
+    return await this.twoFactorAuthenticationService.enableSms2FA(user, body);
+  }
+
+  @RegenerateRecoveryCodesDecorator()
+  @Post('recovery-codes')
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: any,
+  ): Promise<RecoveryCodesDto> {
+    return await this.twoFactorAuthenticationService.regenerateRecoveryCodes(
+      user,
+    );
+  }
+
   @VerifyEmailSetupDecorator()
   @Throttle({ default: { limit: 1, ttl: 60000 } })
   @Post('verify-email')
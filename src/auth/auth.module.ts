@@ -16,19 +16,62 @@ import { TokenService } from './token.service';
 import { LocalStrategy } from './strategies/local.strategy';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { RefreshToken } from './entities/refresh-token.entity';
+import { Session } from './entities/session.entity';
 import { RefreshTokenStrategy } from './strategies/refresh.strategy';
 import { ValidateLoginMiddleware } from './middlewares/validation.middleware';
+import { CsrfMiddleware } from './middlewares/csrf.middleware';
 import { CryptoService } from './crypto.service';
 import { TwoFactorAuthenticationService } from './two-factor.service';
 import { CommonModule } from 'src/common/common.module';
 import { NotificationsModule } from 'src/notifications/notifications.module';
 import { VerificationService } from './verification.service';
+import { KeyRingService } from './key-ring.service';
+import { JwksController } from './jwks.controller';
+import { OAuthClient } from 'src/oauth/entities/oauth-client.entity';
+import { PersonalAccessToken } from './entities/personal-access-token.entity';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+import { PersonalAccessTokensController } from './personal-access-tokens.controller';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
+import { AccessTokenDenylistService } from './access-token-denylist.service';
+import { AuthCookiesService } from './auth-cookies.service';
+import { TotpService } from './totp.service';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import { RecoveryCodesService } from './recovery-codes.service';
+import { WebAuthnCredential } from './entities/webauthn-credential.entity';
+import { WebAuthnService } from './webauthn.service';
+import { WebAuthnController } from './webauthn.controller';
+import { MagicLinkService } from './magic-link.service';
+import { TrustedDevice } from './entities/trusted-device.entity';
+import { TrustedDevicesService } from './trusted-devices.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { OtpService } from './otp.service';
+import { PasswordHistory } from './entities/password-history.entity';
+import { PasswordPolicyService } from './password-policy.service';
+import { AppleIdentityService } from './apple-identity.service';
+import { LinkedIdentity } from './entities/linked-identity.entity';
+import { RevokedAccessToken } from './entities/revoked-access-token.entity';
+import { SocialProviderRegistry } from './social-providers/social-provider.registry';
+import { SocialLoginService } from './social-login.service';
+import { SocialLoginController } from './social-login.controller';
+import { HttpModule } from '@nestjs/axios';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([RefreshToken]),
+    TypeOrmModule.forFeature([
+      RefreshToken,
+      Session,
+      OAuthClient,
+      PersonalAccessToken,
+      RecoveryCode,
+      WebAuthnCredential,
+      TrustedDevice,
+      PasswordHistory,
+      LinkedIdentity,
+      RevokedAccessToken,
+    ]),
     ConfigModule,
     PassportModule,
+    HttpModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -41,17 +84,45 @@ import { VerificationService } from './verification.service';
     CommonModule,
     NotificationsModule,
   ],
-  controllers: [AuthController],
+  controllers: [
+    AuthController,
+    JwksController,
+    PersonalAccessTokensController,
+    WebAuthnController,
+    SocialLoginController,
+  ],
   providers: [
     AuthService,
     JwtStrategy,
     LocalStrategy,
     RefreshTokenStrategy,
+    ApiKeyStrategy,
     PasswordService,
     TokenService,
     CryptoService,
     TwoFactorAuthenticationService,
     VerificationService,
+    KeyRingService,
+    PersonalAccessTokenService,
+    AccessTokenDenylistService,
+    AuthCookiesService,
+    TotpService,
+    RecoveryCodesService,
+    WebAuthnService,
+    MagicLinkService,
+    TrustedDevicesService,
+    LoginAttemptsService,
+    OtpService,
+    PasswordPolicyService,
+    AppleIdentityService,
+    SocialProviderRegistry,
+    SocialLoginService,
+  ],
+  exports: [
+    TokenService,
+    CryptoService,
+    KeyRingService,
+    PersonalAccessTokenService,
   ],
 })
 export class AuthModule implements NestModule {
@@ -59,5 +130,6 @@ export class AuthModule implements NestModule {
     consumer
       .apply(ValidateLoginMiddleware)
       .forRoutes({ path: 'auth/login', method: RequestMethod.POST });
+    consumer.apply(CsrfMiddleware).forRoutes('*');
   }
 }
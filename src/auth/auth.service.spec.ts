@@ -14,6 +14,13 @@ import { UpdateUserDto } from '../users/dtos/update-user.dto';
 import { TokenService } from './token.service';
 import { PasswordService } from './password.service';
 import { CryptoService } from './crypto.service';
+import { TwoFactorAuthenticationService } from './two-factor.service';
+import { TrustedDevicesService } from './trusted-devices.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { AppleIdentityService } from './apple-identity.service';
+import { SocialLoginService } from './social-login.service';
+import { randomBytes, scryptSync } from 'crypto';
 
 const mockVerifyIdToken = jest.fn();
 
@@ -75,12 +82,12 @@ describe('AuthService', () => {
           return Promise.resolve({ email, password: `hashed-${password}` }); // Adjust the implementation as needed
         }),
 
-      // Mock the 'createFromGoogle' method to create a new user from Google login
-      createFromGoogle: (payload: any) => {
+      // Mock the 'createFromSocialProfile' method to create a new user from a social login
+      createFromSocialProfile: (profile: any) => {
         const user = {
           id: '12345',
-          email: payload.email,
-          googleId: payload.sub,
+          email: profile.email,
+          provider: profile.provider,
         } as User;
         users.push(user);
         return Promise.resolve(user);
@@ -113,6 +120,12 @@ describe('AuthService', () => {
       createRefreshToken: jest.fn().mockImplementation((user: any) => {
         return 'fakeRefreshToken'; // Mock token creation logic
       }),
+      startSession: jest.fn().mockImplementation((user: any) => {
+        return Promise.resolve({
+          accessToken: 'fakeAccessToken',
+          refreshToken: 'fakeRefreshToken',
+        }); // Mock session creation logic
+      }),
     };
 
     // Create a test module with JwtModule and the necessary AuthService and UsersService providers
@@ -143,6 +156,22 @@ describe('AuthService', () => {
           useValue: passwordService,
         },
         { provide: CryptoService, useValue: cryptoService },
+        { provide: TwoFactorAuthenticationService, useValue: {} },
+        { provide: TrustedDevicesService, useValue: {} },
+        {
+          provide: LoginAttemptsService,
+          useValue: {
+            assertCanAttempt: jest.fn(),
+            recordFailure: jest.fn(),
+            recordSuccess: jest.fn(),
+          },
+        },
+        {
+          provide: PasswordPolicyService,
+          useValue: { assertValid: jest.fn() },
+        },
+        { provide: AppleIdentityService, useValue: {} },
+        { provide: SocialLoginService, useValue: {} },
       ],
     }).compile(); // Compile the test module, which resolves the dependencies and creates an instance
 
@@ -157,6 +186,11 @@ describe('AuthService', () => {
 
   it('creates a new user and returns access and refresh tokens', async () => {
     const mockUser = { email: 'user4@test.com', password: '123456' };
+    const client = {
+      deviceName: 'test-device',
+      userAgent: 'jest',
+      ipAddress: '127.0.0.1',
+    };
     const expectedTokens = {
       accessToken: 'fakeAccessToken',
       refreshToken: 'fakeRefreshToken',
@@ -165,6 +199,7 @@ describe('AuthService', () => {
     const result = await authService.register(
       mockUser.email,
       mockUser.password,
+      client,
     );
 
     expect(result).toEqual(expectedTokens);
@@ -173,11 +208,9 @@ describe('AuthService', () => {
       expect.any(String),
     ); // Check if userService.create was called correctly
     // Here, expect.any(String) is used to indicate that we expect a string, but not matching it exactly due to hashing
-    expect(tokenService.createAccessToken).toHaveBeenCalledWith(
-      expect.objectContaining({ email: mockUser.email }),
-    );
-    expect(tokenService.createRefreshToken).toHaveBeenCalledWith(
+    expect(tokenService.startSession).toHaveBeenCalledWith(
       expect.objectContaining({ email: mockUser.email }),
+      client,
     );
     // No need to verify that result.password is undefined as password should not be in the token generation response
   });
@@ -188,13 +221,55 @@ describe('AuthService', () => {
     const password = 'asdf';
 
     // Simulate existing user
-    users.push({ email, password: `hashed-${password}` } as User);
+    users.push({
+      email,
+      password: `hashed-${password}`,
+      provider: 'none',
+    } as User);
 
-    await expect(authService.register(email, password)).rejects.toThrow(
+    await expect(authService.register(email, password, null)).rejects.toThrow(
       BadRequestException,
     );
   });
 
+  // Hashes from before the PHC format are hex salt.hash made with the default scrypt cost
+  it('accepts a legacy scrypt password and rehashes it on login', async () => {
+    const realCryptoService = new CryptoService(new ConfigService());
+    Object.assign(cryptoService, {
+      validatePassword: (password: string, storedPassword: string) =>
+        realCryptoService.validatePassword(password, storedPassword),
+      needsRehash: (storedPassword: string) =>
+        realCryptoService.needsRehash(storedPassword),
+      hashPassword: (password: string) =>
+        realCryptoService.hashPassword(password),
+    });
+    userService.update = jest.fn();
+
+    const salt = randomBytes(8).toString('hex');
+    const legacyHash = `${salt}.${scryptSync('password', salt, 32).toString('hex')}`;
+    users.push({
+      id: '12345',
+      email: 'legacy@test.com',
+      password: legacyHash,
+      provider: 'none',
+    } as User);
+
+    await expect(
+      authService.verifyUser('legacy@test.com', 'wrong-password'),
+    ).rejects.toThrow(BadRequestException);
+    expect(userService.update).not.toHaveBeenCalled();
+
+    const user = await authService.verifyUser('legacy@test.com', 'password');
+
+    expect(user.password).toMatch(/^\$argon2id\$/);
+    expect(userService.update).toHaveBeenCalledWith('12345', {
+      password: user.password,
+    });
+    expect(
+      await realCryptoService.validatePassword('password', user.password),
+    ).toBe(true);
+  });
+
   // // Test if the AuthService throws an error when signing in with an unused email
 
   // it('throws if signin is called with an unused email', async () => {
@@ -8,50 +8,66 @@ import {
   UnprocessableEntityException,
 } from '@nestjs/common';
 import { UsersService } from '../users/users.service';
-import { OAuth2Client } from 'google-auth-library';
-import { User, UserStatus } from '../users/entities/user.entity';
+import {
+  TwoFactorMethod,
+  User,
+  UserStatus,
+} from '../users/entities/user.entity';
 import { AccountInactiveException } from '../common/exceptions/account-inactive.exception';
 import { TokenService } from './token.service';
 import { CryptoService } from './crypto.service';
 import { TwoFactorAuthenticationService } from './two-factor.service';
 import { JwtService } from '@nestjs/jwt';
 import { AuthenticatedResponseDto } from './dtos/auth-response.dto';
-import { LoginWithTwoFactorAuthenticationDto } from './dtos/login-with-2fa.dto';
-import { InjectRepository } from '@nestjs/typeorm';
-import { RefreshToken } from './entities/refresh-token.entity';
-import { Repository } from 'typeorm';
-
-// Initialize the OAuth2Client with the Google client ID from the environment variables.
-const client = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
+import {
+  LoginWithTwoFactorAuthenticationDto,
+  TwoFactorLoginResponseDto,
+} from './dtos/login-with-2fa.dto';
+import { ClientInfo } from './decorators/current-client.decorator';
+import { TrustedDevicesService } from './trusted-devices.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { AppleIdentityService } from './apple-identity.service';
+import { AppleLoginDto } from './dtos/apple-login.dto';
+import { SocialLoginService } from './social-login.service';
+import {
+  ReauthenticateDto,
+  ReauthenticatedResponseDto,
+} from './dtos/reauthenticate.dto';
 
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
 
   constructor(
-    @InjectRepository(RefreshToken)
-    private readonly refreshTokenRepo: Repository<RefreshToken>,
     private readonly usersService: UsersService,
     private readonly tokenService: TokenService,
     private readonly cryptoService: CryptoService,
     private readonly twoFactorAuthenticationService: TwoFactorAuthenticationService,
     private readonly jwtService: JwtService,
+    private readonly trustedDevicesService: TrustedDevicesService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly appleIdentityService: AppleIdentityService,
+    private readonly socialLoginService: SocialLoginService,
   ) {}
 
-  async register(email: string, password: string) {
+  async register(email: string, password: string, client: ClientInfo) {
     // Check if the email is already in use
     const user = await this.usersService.findByEmail(email);
 
-    // If the user exists and has a Google ID, they should use Google to log in
-    if (user && user.googleId) {
+    // If the user signed up with Google, Apple or another provider, they should use it to log in
+    if (user && user.provider !== 'none') {
       throw new ForbiddenException(
-        'This email is associated with a Google account. Please use Google to sign in.',
+        `This email is associated with a ${user.provider} account. Please use ${user.provider} to sign in.`,
       );
     }
 
-    // If the user exists but is not associated with Google, throw an exception
+    // If the user exists but is not associated with a provider, throw an exception
     if (user) throw new BadRequestException('Email is already in use.');
 
+    await this.passwordPolicyService.assertValid(password);
+
     // Hash the password using the CryptoService
     const hashedPassword = await this.cryptoService.hashPassword(password);
 
@@ -61,10 +77,11 @@ export class AuthService {
       hashedPassword,
     );
 
-    // Generate access and refresh tokens for the new user
-    const accessToken = await this.tokenService.createAccessToken(createdUser);
-    const refreshToken =
-      await this.tokenService.createRefreshToken(createdUser);
+    // Start a session and generate access and refresh tokens for the new user
+    const { accessToken, refreshToken } = await this.tokenService.startSession(
+      createdUser,
+      client,
+    );
 
     this.logger.log(
       JSON.stringify({
@@ -80,7 +97,7 @@ export class AuthService {
     };
   }
 
-  async login(user: User) {
+  async login(user: User, client: ClientInfo, method = 'email') {
     // Check if the user's account is active
     if (
       user.status === UserStatus.Inactive ||
@@ -92,35 +109,62 @@ export class AuthService {
       );
     }
 
-    if (user.isTwoFactorAuthEnabled) {
+    // A device the user trusted after an earlier 2FA login goes straight through
+    if (
+      user.isTwoFactorAuthEnabled &&
+      !(await this.trustedDevicesService.isTrusted(
+        user.id,
+        client?.trustedDeviceToken ?? null,
+      ))
+    ) {
       this.logger.log(
         JSON.stringify({
           action: 'login-2fa-attempt',
           userId: user.id,
-          method: 'email',
+          method,
+          twoFactorMethod: user.twoFactorMethod,
         }),
       );
-      const tempAuthToken = this.jwtService.sign(
-        { userId: user.id },
-        { expiresIn: '10m' },
-      );
-      const setupResult =
-        await this.twoFactorAuthenticationService.setup2FA(user);
+      const tempAuthToken =
+        this.twoFactorAuthenticationService.createTempAuthToken(user.id);
+
+      // Authenticator apps already have the code, nothing to send
+      if (user.twoFactorMethod === TwoFactorMethod.Totp) {
+        return {
+          tempAuthToken: tempAuthToken,
+          twoFactorMethod: user.twoFactorMethod,
+          message: 'Enter the code from your authenticator app.',
+        };
+      }
+
+      // Email or SMS, depending on the user's method
+      const { message, twoFactorMethod } =
+        await this.twoFactorAuthenticationService.sendLoginCode(user);
 
       return {
         tempAuthToken: tempAuthToken,
-        message: setupResult.message,
+        twoFactorMethod,
+        message,
       };
     } else {
-      // User does not have 2FA enabled, proceed with normal login
-      const accessToken = await this.tokenService.createAccessToken(user);
-      const refreshToken = await this.tokenService.createRefreshToken(user);
+      // User does not have 2FA enabled or is on a trusted device, proceed with normal login
+      const { accessToken, refreshToken } =
+        await this.tokenService.startSession(
+          user,
+          client,
+          method === 'magic-link'
+            ? ['email']
+            : method === 'email'
+              ? ['pwd']
+              : ['fed'],
+        );
 
       this.logger.log(
         JSON.stringify({
           action: 'login',
           userId: user.id,
-          method: 'email',
+          method,
+          trustedDevice: user.isTwoFactorAuthEnabled,
         }),
       );
 
@@ -162,11 +206,10 @@ export class AuthService {
   async loginWithOtp(
     body: LoginWithTwoFactorAuthenticationDto,
     user: any,
-  ): Promise<AuthenticatedResponseDto> {
-    const isOtpValid = await this.cryptoService.validateOtp(
-      body.otp,
-      user.twoFactorAuthToken,
-    );
+    client: ClientInfo,
+  ): Promise<TwoFactorLoginResponseDto> {
+    const isOtpValid =
+      await this.twoFactorAuthenticationService.verifyLoginCode(user, body.otp);
 
     if (!isOtpValid) {
       throw new UnauthorizedException(
@@ -174,62 +217,186 @@ export class AuthService {
       );
     }
 
-    const accessToken = await this.tokenService.createAccessToken(user);
-    const refreshToken = await this.tokenService.createRefreshToken(user);
-
+    const tokens = await this.tokenService.startSession(user, client, [
+      'mfa',
+      'otp',
+    ]);
+    if (!body.trustDevice) {
+      return tokens;
+    }
     return {
-      accessToken,
-      refreshToken,
+      ...tokens,
+      trustedDeviceToken: await this.trustedDevicesService.trust(
+        user.id,
+        client,
+      ),
     };
   }
 
-  async googleLogin(token: string) {
-    // Verify the Google ID token and extract the user's information
-    const ticket = await client.verifyIdToken({
-      idToken: token,
-      audience: process.env.GOOGLE_CLIENT_ID,
-    });
-    const payload = ticket.getPayload();
-    const googleId = payload['sub']; // Extract Google ID
+  // Passkeys are phishing resistant and check the user themselves, so they skip the 2FA step
+  async loginWithPasskey(
+    user: User,
+    client: ClientInfo,
+  ): Promise<AuthenticatedResponseDto> {
+    if (
+      user.status === UserStatus.Inactive ||
+      user.status === UserStatus.Deleted ||
+      user.status === UserStatus.Blocked
+    ) {
+      throw new AccountInactiveException(
+        'Your account is not active. Please contact support.',
+      );
+    }
 
-    // Attempt to find or create a user with the Google ID
-    let user = await this.usersService.findByGoogleId(googleId);
+    const tokens = await this.tokenService.startSession(user, client, [
+      'hwk',
+      'user',
+    ]);
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'login',
+        userId: user.id,
+        method: 'passkey',
+      }),
+    );
+    return tokens;
+  }
+
+  // Google's sign-in button hands the client an ID token, the redirect flow goes through SocialLoginService
+  async googleLogin(token: string, clientInfo: ClientInfo) {
+    const user = await this.socialLoginService.loginWithIdToken(
+      'google',
+      token,
+    );
+    return await this.loginWithSocialAccount(user, clientInfo, 'google');
+  }
+
+  // Same status and 2FA checks as any other login
+  async loginWithSocialAccount(
+    user: User,
+    clientInfo: ClientInfo,
+    provider: string,
+  ) {
+    return await this.login(user, clientInfo, provider);
+  }
+
+  async appleLogin(body: AppleLoginDto, clientInfo: ClientInfo) {
+    // Verify the identity token against Apple's keys
+    const identity = await this.appleIdentityService.verify(
+      body.identityToken,
+      body.nonce,
+    );
+
+    // The subject ID stays the same, the email can change or be hidden behind a relay address
+    let user = await this.usersService.findByAppleId(identity.sub);
 
     if (!user) {
-      user = await this.usersService.createFromGoogle({
-        email: payload['email'],
-        googleId,
-        picture: payload['picture'],
-        displayName: payload['displayName'],
-        firstName: payload['given_name'],
-        provider: 'google',
-        isActivatedWithEmail: payload['email_verified'],
+      if (!identity.email) {
+        throw new UnauthorizedException(
+          'Apple did not share an email address for this account.',
+        );
+      }
+      if (await this.usersService.findByEmail(identity.email)) {
+        throw new UnprocessableEntityException(
+          'An account with this email address already exists through a different method.',
+        );
+      }
+
+      // Apple only sends the name on the first sign in, so it is saved with the new user
+      user = await this.usersService.createFromApple({
+        email: identity.email,
+        appleId: identity.sub,
+        firstName: body.firstName ?? null,
+        lastName: body.lastName ?? null,
+        isEmailVerified: identity.emailVerified,
+        provider: 'apple',
       });
     }
 
-    // Generate and return access and refresh tokens for the user
-    const accessToken = await this.tokenService.createAccessToken(user);
-    const refreshToken = await this.tokenService.createRefreshToken(user);
+    // Same status and 2FA checks as any other login
+    return await this.login(user, clientInfo, 'apple');
+  }
+
+  // Step-up before sensitive changes, the user proves who they are again without starting a new session
+  async reauthenticate(
+    user: any,
+    body: ReauthenticateDto,
+    ipAddress: string | null = null,
+  ): Promise<ReauthenticatedResponseDto> {
+    if (!user.sessionId) {
+      throw new BadRequestException('Please sign in again to continue.');
+    }
+
+    const currentUser = await this.usersService.findByEmail(user.email);
+    let amr: string[];
+    if (body.password) {
+      // Wrong passwords count towards the same limits as on /auth/login
+      await this.loginAttemptsService.assertCanAttempt(currentUser, ipAddress);
+      if (
+        !currentUser?.password ||
+        !(await this.cryptoService.validatePassword(
+          body.password,
+          currentUser.password,
+        ))
+      ) {
+        await this.loginAttemptsService.recordFailure(currentUser, ipAddress);
+        throw new UnauthorizedException('Incorrect password.');
+      }
+      await this.loginAttemptsService.recordSuccess(currentUser);
+      amr = ['pwd'];
+    } else if (body.otp) {
+      if (
+        !currentUser ||
+        !(await this.twoFactorAuthenticationService.verifyLoginCode(
+          currentUser,
+          body.otp,
+        ))
+      ) {
+        throw new UnauthorizedException('Invalid code. Please try again.');
+      }
+      amr = ['otp'];
+    } else {
+      throw new BadRequestException('Please enter your password or a code.');
+    }
+
+    const reauthenticated = await this.tokenService.reauthenticateSession(
+      currentUser.id,
+      user.sessionId,
+      amr,
+    );
+    if (!reauthenticated) {
+      throw new UnauthorizedException();
+    }
 
     this.logger.log(
       JSON.stringify({
-        action: 'login',
-        userId: user.id,
-        method: 'google',
+        action: 'reauthenticate',
+        userId: currentUser.id,
+        sessionId: user.sessionId,
+        amr,
       }),
     );
 
     return {
-      accessToken,
-      refreshToken,
+      accessToken: await this.tokenService.createAccessToken(
+        currentUser,
+        user.sessionId,
+      ),
     };
   }
 
-  async verifyUser(email: string, password: string): Promise<User> {
+  async verifyUser(
+    email: string,
+    password: string,
+    ipAddress: string | null = null,
+  ): Promise<User> {
     // Attempt to find the user by email
     const user = await this.usersService.findByEmail(email);
-    // Check if the user has previously signed up with Google
-    if (user && user.provider === 'google') {
+    await this.loginAttemptsService.assertCanAttempt(user, ipAddress);
+
+    // Check if the user has previously signed up with Google or Apple
+    if (user && user.provider !== 'none') {
       throw new UnprocessableEntityException(
         'An account with this email address already exists through a different method.',
       );
@@ -237,6 +404,7 @@ export class AuthService {
 
     // If no user found, throw an exception
     if (!user) {
+      await this.loginAttemptsService.recordFailure(null, ipAddress);
       throw new NotFoundException('No user found with this email address.');
     }
 
@@ -246,16 +414,39 @@ export class AuthService {
       user.password,
     );
     if (!isValidPassword) {
+      await this.loginAttemptsService.recordFailure(user, ipAddress);
       throw new BadRequestException('Incorrect email or password.');
     }
+    await this.loginAttemptsService.recordSuccess(user);
+
+    // The plain password is only at hand here, so hashes made with older settings are upgraded now
+    if (this.cryptoService.needsRehash(user.password)) {
+      user.password = await this.cryptoService.hashPassword(password);
+      await this.usersService.update(user.id, { password: user.password });
+      this.logger.log(
+        JSON.stringify({ action: 'rehash-password', userId: user.id }),
+      );
+    }
 
     // Return the verified user
     return user;
   }
 
-  async logout(user: User): Promise<{ message: string }> {
+  async logout(user: any): Promise<{ message: string }> {
     await this.usersService.updateCurrentUser(user.id, { fcmToken: null });
-    await this.refreshTokenRepo.remove(user.refreshTokens);
+
+    // The access token used to log out must not outlive the logout
+    await this.tokenService.revokeAccessToken(
+      user.accessTokenId,
+      user.accessTokenExpiresAt,
+    );
+
+    // Only end the session the access token belongs to, other devices stay logged in
+    if (user.sessionId) {
+      await this.tokenService.revokeSession(user.id, user.sessionId);
+    } else {
+      await this.tokenService.revokeAllSessions(user.id);
+    }
     return {
       message: 'Logout successful.',
     };
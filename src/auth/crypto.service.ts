@@ -1,28 +1,117 @@
 import { Injectable } from '@nestjs/common';
-import { randomBytes, scrypt as _scrypt } from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  randomInt,
+  scrypt as _scrypt,
+  timingSafeEqual,
+} from 'crypto';
 import { promisify } from 'util';
+import * as argon2 from 'argon2';
 
 const scrypt = promisify(_scrypt);
 
+export type PasswordHashAlgorithm = 'argon2id' | 'scrypt';
+
+type ScryptParams = { ln: number; r: number; p: number };
+
 @Injectable()
 export class CryptoService {
+  private readonly passwordHashAlgorithm: PasswordHashAlgorithm;
+  private readonly argon2Options: {
+    memoryCost: number;
+    timeCost: number;
+    parallelism: number;
+  };
+  private readonly scryptParams: ScryptParams;
+
+  constructor(private readonly configService: ConfigService) {
+    this.passwordHashAlgorithm =
+      this.configService.get<string>('PASSWORD_HASH_ALGORITHM') === 'scrypt'
+        ? 'scrypt'
+        : 'argon2id';
+    // Defaults follow the OWASP password storage recommendations
+    this.argon2Options = {
+      memoryCost: this.getNumber('ARGON2_MEMORY_COST', 19456), // KiB
+      timeCost: this.getNumber('ARGON2_TIME_COST', 2),
+      parallelism: this.getNumber('ARGON2_PARALLELISM', 1),
+    };
+    this.scryptParams = {
+      ln: this.getNumber('SCRYPT_LOG_COST', 17), // N = 2^ln
+      r: this.getNumber('SCRYPT_BLOCK_SIZE', 8),
+      p: this.getNumber('SCRYPT_PARALLELIZATION', 1),
+    };
+  }
+
+  // Hashes are stored in the PHC string format, $<algorithm>$<params>$<salt>$<hash>, so they can be verified after the settings change
   async hashPassword(password: string): Promise<string> {
-    const salt = randomBytes(8).toString('hex');
-    const hash = (await scrypt(password, salt, 32)) as Buffer;
-    return `${salt}.${hash.toString('hex')}`;
+    if (this.passwordHashAlgorithm === 'argon2id') {
+      return await argon2.hash(password, {
+        type: argon2.argon2id,
+        ...this.argon2Options,
+      });
+    }
+
+    const { ln, r, p } = this.scryptParams;
+    const salt = randomBytes(16);
+    const hash = await this.scryptWithParams(password, salt, this.scryptParams);
+    return `$scrypt$ln=${ln},r=${r},p=${p}$${salt.toString('base64url')}$${hash.toString('base64url')}`;
   }
 
   async validatePassword(
     password: string,
     storedPassword: string,
   ): Promise<boolean> {
+    if (storedPassword.startsWith('$argon2')) {
+      try {
+        return await argon2.verify(storedPassword, password);
+      } catch {
+        return false;
+      }
+    }
+
+    if (storedPassword.startsWith('$scrypt$')) {
+      const [, , params, salt, storedHash] = storedPassword.split('$');
+      const hash = await this.scryptWithParams(
+        password,
+        Buffer.from(salt, 'base64url'),
+        this.parseScryptParams(params),
+      );
+      const stored = Buffer.from(storedHash, 'base64url');
+      return hash.length === stored.length && timingSafeEqual(hash, stored);
+    }
+
+    // Hashes from before the PHC format, hex salt.hash with the default scrypt cost
     const [salt, storedHash] = storedPassword.split('.');
     const hash = (await scrypt(password, salt, 32)) as Buffer;
-    return storedHash === hash.toString('hex');
+    return this.compareHashes(hash, storedHash);
+  }
+
+  // True when the hash was made with another algorithm or weaker settings than the current ones
+  needsRehash(storedPassword: string): boolean {
+    if (this.passwordHashAlgorithm === 'argon2id') {
+      return (
+        !storedPassword.startsWith('$argon2id$') ||
+        argon2.needsRehash(storedPassword, this.argon2Options)
+      );
+    }
+
+    if (!storedPassword.startsWith('$scrypt$')) {
+      return true;
+    }
+    const { ln, r, p } = this.parseScryptParams(storedPassword.split('$')[2]);
+    return (
+      ln !== this.scryptParams.ln ||
+      r !== this.scryptParams.r ||
+      p !== this.scryptParams.p
+    );
   }
 
   async generateAndHashOtp6Figures(): Promise<[string, string]> {
-    const otp = Math.floor(100000 + Math.random() * 900000).toString();
+    const otp = randomInt(100000, 1000000).toString();
     const salt = randomBytes(8).toString('hex');
     const hashedOtp = (await scrypt(otp, salt, 32)) as Buffer;
     return [otp, `${salt}.${hashedOtp.toString('hex')}`];
@@ -31,6 +120,90 @@ export class CryptoService {
   async validateOtp(otp: string, storedOtp: string): Promise<boolean> {
     const [salt, storedHash] = storedOtp.split('.');
     const hash = (await scrypt(otp, salt, 32)) as Buffer;
-    return storedHash === hash.toString('hex');
+    return this.compareHashes(hash, storedHash);
+  }
+
+  // Tokens are long and random, so a fast unsalted digest is enough to keep them out of the database
+  hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  compareTokenHash(token: string, storedHash: string): boolean {
+    return this.compareHashes(
+      Buffer.from(this.hashToken(token), 'hex'),
+      storedHash,
+    );
+  }
+
+  // For secrets that have to be read back, like TOTP keys, stored as iv.tag.ciphertext
+  encryptSecret(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString('base64url'))
+      .join('.');
+  }
+
+  decryptSecret(encrypted: string): string {
+    const [iv, tag, ciphertext] = encrypted
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.getEncryptionKey(),
+      iv,
+    );
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private getEncryptionKey(): Buffer {
+    const secret = this.configService.get<string>('ENCRYPTION_KEY');
+    if (!secret) {
+      throw new Error('ENCRYPTION_KEY is not configured.');
+    }
+    // Any long random string works, hashing it gives the 32 bytes AES-256 needs
+    return createHash('sha256').update(secret).digest();
+  }
+
+  // Constant time, so the response time does not tell how much of a guess was right
+  private compareHashes(hash: Buffer, storedHash: string | undefined): boolean {
+    const stored = Buffer.from(storedHash ?? '', 'hex');
+    return hash.length === stored.length && timingSafeEqual(hash, stored);
+  }
+
+  private async scryptWithParams(
+    password: string,
+    salt: Buffer,
+    { ln, r, p }: ScryptParams,
+  ): Promise<Buffer> {
+    const N = 2 ** ln;
+    return await new Promise((resolve, reject) =>
+      _scrypt(
+        password,
+        salt,
+        32,
+        { N, r, p, maxmem: 256 * N * r }, // Node refuses anything over 32 MiB by default
+        (error, hash) => (error ? reject(error) : resolve(hash)),
+      ),
+    );
+  }
+
+  private parseScryptParams(params: string): ScryptParams {
+    const values = Object.fromEntries(
+      params.split(',').map((param) => param.split('=')),
+    );
+    return { ln: Number(values.ln), r: Number(values.r), p: Number(values.p) };
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    return Number(this.configService.get<string>(key)) || defaultValue;
   }
 }
@@ -0,0 +1,32 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { TRUSTED_DEVICE_COOKIE } from '../auth-cookies.service';
+
+// Details about the device/browser a request was made from, stored on sessions
+export type ClientInfo = {
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  trustedDeviceToken?: string | null;
+};
+
+export function extractClientInfo(req: Request): ClientInfo {
+  return {
+    deviceName: (req.headers['x-device-name'] as string) || null,
+    userAgent: req.headers['user-agent'] || null,
+    // X-Forwarded-For is only honoured from the proxies set in TRUST_PROXY
+    ipAddress: req.ip || req.socket?.remoteAddress || null,
+    // Browsers send it as a cookie, other clients in a header
+    trustedDeviceToken:
+      (req.headers['x-trusted-device'] as string) ||
+      req.cookies?.[TRUSTED_DEVICE_COOKIE] ||
+      null,
+  };
+}
+
+export const CurrentClient = createParamDecorator(
+  (data: unknown, context: ExecutionContext): ClientInfo => {
+    const request = context.switchToHttp().getRequest();
+    return extractClientInfo(request);
+  },
+);
@@ -5,14 +5,17 @@ import {
   ApiBody,
   ApiCreatedResponse,
   ApiForbiddenResponse,
+  ApiHeader,
   ApiNotFoundResponse,
   ApiOkResponse,
   ApiOperation,
+  ApiParam,
   ApiUnauthorizedResponse,
   ApiUnprocessableEntityResponse,
 } from '@nestjs/swagger';
 import { ChangePasswordDto } from '../dtos/change-password.dto';
 import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import { RecentAuthGuard } from 'src/guards/recent-auth.guard';
 import { commonErrorResponses } from 'src/common/constants';
 import { ForgotPasswordDto } from '../dtos/forgot-password.dto';
 import { ResetPasswordDto } from '../dtos/reset-password.dto';
@@ -20,28 +23,68 @@ import { AuthenticatedResponseDto } from '../dtos/auth-response.dto';
 import { LocalAuthGuard } from 'src/guards/local.guard';
 import { LoginUserDto } from '../dtos/login-user.dto';
 import { RefreshTokenDto } from '../dtos/refresh-token.dto';
-import { LoginWithTwoFactorAuthenticationDto } from '../dtos/login-with-2fa.dto';
+import {
+  LoginWithTwoFactorAuthenticationDto,
+  TwoFactorLoginResponseDto,
+} from '../dtos/login-with-2fa.dto';
 import { Resend2faOtpDto } from '../dtos/resend-2fa-otp.dto';
 import { ValidateOtpDto } from '../dtos/validate-otp.dto';
 import { TwoFactorAuthGuard } from 'src/guards/2FA.guard';
 import { RefreshTokenGuard } from 'src/guards/refresh.guard';
+import { SessionDto } from '../dtos/session.dto';
+import { TrustedDeviceDto } from '../dtos/trusted-device.dto';
+import {
+  ReauthenticateDto,
+  ReauthenticatedResponseDto,
+} from '../dtos/reauthenticate.dto';
+import { AdminGuard } from 'src/guards/admin.guard';
+import {
+  CreatedPersonalAccessTokenDto,
+  PersonalAccessTokenDto,
+} from '../dtos/personal-access-token.dto';
+import { TotpSetupResponseDto } from '../dtos/totp-setup.dto';
+import { RecoveryCodesDto } from '../dtos/recovery-codes.dto';
+import {
+  ConsumeMagicLinkDto,
+  MagicLinkRequestDto,
+} from '../dtos/magic-link.dto';
+import {
+  RegisterWebAuthnCredentialDto,
+  WebAuthnCredentialDto,
+  WebAuthnLoginDto,
+  WebAuthnTwoFactorLoginDto,
+  WebAuthnTwoFactorOptionsDto,
+} from '../dtos/webauthn.dto';
+import {
+  SocialAuthorizationDto,
+  SocialLoginCallbackDto,
+  SocialProvidersDto,
+} from '../dtos/social-login.dto';
+
+const deviceNameHeader = {
+  name: 'X-Device-Name',
+  description:
+    'Optional human readable name of the device, shown in the session list',
+  required: false,
+};
 
 export function RegisterUsersDecorator() {
   return applyDecorators(
     ApiOperation({
       summary: 'User registration',
       description:
-        'This endpoint allows new users to create an account. Users provide an email and password which are then stored in the database. If the operation is successful, a new JWT token is created for the user and returned in a cookie.',
+        'This endpoint allows new users to create an account. Users provide an email and password which are then stored in the database. If the operation is successful, a new JWT token is created for the user and returned in the response body, or set as cookies when cookie mode is enabled.',
     }),
     ApiCreatedResponse({
       description: 'The user has been successfully created.',
       type: AuthenticatedResponseDto,
     }),
-    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiBadRequestResponse(commonErrorResponses.passwordPolicy),
     ApiForbiddenResponse(commonErrorResponses.forbidden),
     ApiUnprocessableEntityResponse(
       commonErrorResponses.unprocessableEntityResponse,
     ),
+    ApiHeader(deviceNameHeader),
   );
 }
 
@@ -50,7 +93,7 @@ export function LoginUsersDecorator() {
     ApiOperation({
       summary: 'User login',
       description:
-        "This endpoint allows existing users to authenticate with the system. Users provide their email and password, and if they match what's in the database, a new JWT token is created for the user and returned in a cookie. If the email does not exist in the database, or if the password does not match, an error message is returned.",
+        "This endpoint allows existing users to authenticate with the system. Users provide their email and password, and if they match what's in the database, a new JWT token is created for the user and returned in the response body, or set as cookies when cookie mode is enabled. If the email does not exist in the database, or if the password does not match, an error message is returned.",
     }),
     ApiOkResponse({
       description: 'Returns the user and access token',
@@ -60,6 +103,7 @@ export function LoginUsersDecorator() {
     ApiBadRequestResponse(commonErrorResponses.badRequest),
     ApiNotFoundResponse(commonErrorResponses.notFound),
     UseGuards(LocalAuthGuard),
+    ApiHeader(deviceNameHeader),
   );
 }
 
@@ -68,7 +112,7 @@ export function LogoutUsersDecorator() {
     ApiOperation({
       summary: 'User logout',
       description:
-        'This endpoint deletes user fcm token for further notifications and refreshtokens when logged out, requires JWT',
+        'This endpoint deletes user fcm token for further notifications and ends the session of the current device when logged out, sessions on other devices stay active, requires JWT',
     }),
     ApiOkResponse({
       description: 'Returns success message',
@@ -84,7 +128,7 @@ export function GoogleLoginDecorator() {
     ApiOperation({
       summary: 'Google login',
       description:
-        "This endpoint allows users to authenticate or register using their Google account. The user provides their Google credential and if it's valid, a new JWT token is created for the user and returned in a cookie. If the user does not exist in the database, a new user is created.",
+        "This endpoint allows users to authenticate or register using their Google account. The user provides their Google credential and if it's valid, a new JWT token is created for the user and returned in the response body, or set as cookies when cookie mode is enabled. If the user does not exist in the database, a new user is created. When 2FA is enabled, a temporary token is returned instead, to be used with login-with-two-factor-authentication.",
     }),
     ApiCreatedResponse({
       description: 'The user has been successfully logged in or created.',
@@ -92,6 +136,144 @@ export function GoogleLoginDecorator() {
     }),
     ApiBadRequestResponse(commonErrorResponses.badRequest),
     ApiUnauthorizedResponse(commonErrorResponses.invalidKey),
+    ApiHeader(deviceNameHeader),
+  );
+}
+
+export function AppleLoginDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Apple login',
+      description:
+        "This endpoint allows users to authenticate or register with Sign in with Apple. The identity token is verified against Apple's public keys, and a new JWT token is created for the user and returned in the response body, or set as cookies when cookie mode is enabled. If the user does not exist in the database, a new user is created with the email Apple shares, which can be a private relay address. Apple only shares the user's name on their first sign in, so clients should pass it on then. When 2FA is enabled, a temporary token is returned instead, to be used with login-with-two-factor-authentication.",
+    }),
+    ApiCreatedResponse({
+      description: 'The user has been successfully logged in or created.',
+      type: AuthenticatedResponseDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.invalidKey),
+    ApiUnprocessableEntityResponse(
+      commonErrorResponses.unprocessableEntityResponse,
+    ),
+    ApiHeader(deviceNameHeader),
+  );
+}
+
+export function GetSocialProvidersDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List social login providers',
+      description:
+        'Returns the providers that are configured for the sign in redirect flow, such as google, github, microsoft and gitlab.',
+    }),
+    ApiOkResponse({ type: SocialProvidersDto }),
+  );
+}
+
+export function StartSocialLoginDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Start signing in with a social login provider',
+      description:
+        "Returns the provider's sign in URL to send the browser to, and sets a cookie that ties the sign in to this browser. After the user agrees, the provider redirects to SOCIAL_LOGIN_REDIRECT_URL/<provider> with a code and a state, which that page sends to the callback endpoint. The state is valid for 10 minutes.",
+    }),
+    ApiParam({ name: 'provider', example: 'github' }),
+    ApiCreatedResponse({ type: SocialAuthorizationDto }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiNotFoundResponse(commonErrorResponses.notFound),
+  );
+}
+
+export function CompleteSocialLoginDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Finish signing in with a social login provider',
+      description:
+        "Exchanges the code from the provider for the user's profile, and signs in the user linked to that provider account. A new user is created on the first sign in, unless the provider has not verified the email or it already belongs to another account. Tokens are returned in the response body, or set as cookies when cookie mode is enabled. When 2FA is enabled, a temporary token is returned instead, to be used with login-with-two-factor-authentication. Must be called from the browser that started the sign in.",
+    }),
+    ApiParam({ name: 'provider', example: 'github' }),
+    ApiCreatedResponse({
+      description: 'Returns tokens',
+      type: AuthenticatedResponseDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiNotFoundResponse(commonErrorResponses.notFound),
+    ApiUnprocessableEntityResponse(
+      commonErrorResponses.unprocessableEntityResponse,
+    ),
+    ApiBody({ type: SocialLoginCallbackDto }),
+    ApiHeader(deviceNameHeader),
+  );
+}
+
+export function MagicLinkDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Request a sign-in link',
+      description:
+        'Emails a link that signs the user in without a password. The link works once, for 15 minutes, and only in the browser that requested it, which gets a cookie to prove it. The response is the same whether or not the email has an account.',
+    }),
+    ApiOkResponse({
+      description: 'The link has been sent if the account exists',
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiBody({ type: MagicLinkRequestDto }),
+  );
+}
+
+export function ConsumeMagicLinkDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Sign in with a sign-in link',
+      description:
+        'Exchanges the token of a sign-in link for an access token and a refresh token, returned in the response body or set as cookies when cookie mode is enabled. When 2FA is enabled, a temporary token is returned instead, to be used with login-with-two-factor-authentication.',
+    }),
+    ApiOkResponse({
+      description: 'User is logged in successfully',
+      type: AuthenticatedResponseDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBody({ type: ConsumeMagicLinkDto }),
+    ApiHeader(deviceNameHeader),
+  );
+}
+
+export function ReauthenticateDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Confirm identity for sensitive changes',
+      description:
+        'The user enters their password, or a code when they have none, and gets a new access token for the same session. For the next 5 minutes it allows sensitive changes such as changing the password, turning off 2FA or deleting the account. These routes answer 401 with the error insufficient_user_authentication when this is needed.',
+    }),
+    ApiOkResponse({
+      description:
+        'Returns the new access token, or sets it as a cookie when cookie mode is enabled',
+      type: ReauthenticatedResponseDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBody({ type: ReauthenticateDto }),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function SendReauthenticationCodeDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Send a code to confirm identity',
+      description:
+        'For users without a password, such as Google accounts. Sends a code by email, or by SMS when that is their 2FA method, to use with /auth/reauthenticate. Authenticator app users are told to use a code from the app instead.',
+    }),
+    ApiOkResponse({
+      description: 'The code has been sent',
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
   );
 }
 
@@ -101,34 +283,48 @@ export function ChangePasswordDecorator() {
     ApiOperation({
       summary: 'Change current user password',
       description:
-        'This endpoint allows the currently authenticated user to change their password. The user must provide their current password for verification along with the new password. The user must be authenticated with a valid JWT token.',
+        'This endpoint allows the currently authenticated user to change their password. The user must provide their current password for verification along with the new password. The user must be authenticated with a valid JWT token. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes.',
     }),
     ApiOkResponse({
       description: 'Password has been changed',
     }),
-    ApiBadRequestResponse(commonErrorResponses.badRequest),
-    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBadRequestResponse(commonErrorResponses.passwordPolicy),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
     ApiBody({
       description: 'Password change data',
       type: ChangePasswordDto,
     }),
-    UseGuards(JwtAuthGuard),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
   );
 }
 
 export function ForgotPasswordDecorator() {
   return applyDecorators(
-    ApiOperation({ summary: 'Request a password reset link' }),
+    ApiOperation({
+      summary: 'Request a password reset link',
+      description:
+        'Emails a link to reset the password, valid for one hour and usable once. The response is the same whether or not the email has an account.',
+    }),
     ApiBody({ type: ForgotPasswordDto, description: 'Email' }),
-    ApiOkResponse(),
+    ApiOkResponse({
+      schema: {
+        example: {
+          message:
+            'If an account exists for this email, a password reset link has been sent.',
+        },
+      },
+    }),
     ApiBadRequestResponse(commonErrorResponses.badRequest),
-    ApiNotFoundResponse(commonErrorResponses.notFound),
   );
 }
 
 export function ResetPasswordDecorator() {
   return applyDecorators(
-    ApiOperation({ summary: 'Reset the password using reset token' }),
+    ApiOperation({
+      summary: 'Reset the password using reset token',
+      description:
+        'Sets the new password and signs the user out of every existing session. Returns tokens for a new session.',
+    }),
     ApiBody({
       type: ResetPasswordDto,
       description: 'Reset Token and New Password',
@@ -137,6 +333,7 @@ export function ResetPasswordDecorator() {
       description: 'Returns tokens ',
       type: AuthenticatedResponseDto,
     }),
+    ApiBadRequestResponse(commonErrorResponses.passwordPolicy),
     ApiNotFoundResponse(commonErrorResponses.invalidKey),
   );
 }
@@ -145,6 +342,8 @@ export function RefreshTokenDecorator() {
   return applyDecorators(
     ApiOperation({
       summary: 'Send refresh token to receive new token and refreshToken',
+      description:
+        'Refresh tokens are single use, every call returns a new refresh token that replaces the one sent. Sending an already used refresh token is treated as token theft and ends the whole session. In cookie mode the refresh token is read from its cookie and the X-XSRF-TOKEN header must match the XSRF-TOKEN cookie.',
     }),
     ApiCreatedResponse({
       description: 'Returns tokens',
@@ -161,17 +360,18 @@ export function LoginWithTwoFactorDecorator() {
     ApiOperation({
       summary: 'Login with Two-Factor Authentication',
       description:
-        'This endpoint allows users with 2FA enabled to login by providing their email and the OTP sent to their email. If the OTP matches and is valid, the user will be authenticated.',
+        'This endpoint allows users with 2FA enabled to login by providing the temporary token from the login response and either the OTP sent to their email or phone or a code from their authenticator app, depending on the twoFactorMethod the login response returned. A recovery code can be sent instead, it is used up and the user is notified by email. If the code is valid, the user will be authenticated. With trustDevice set, later logins from this device skip the 2FA step until the trust expires or is revoked.',
     }),
     ApiOkResponse({
       description: 'User is logged in successfully, returns access token',
-      type: AuthenticatedResponseDto,
+      type: TwoFactorLoginResponseDto,
     }),
     ApiBadRequestResponse(commonErrorResponses.badRequest),
     ApiNotFoundResponse(commonErrorResponses.notFound),
     ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
     ApiBody({ type: LoginWithTwoFactorAuthenticationDto }),
     UseGuards(TwoFactorAuthGuard),
+    ApiHeader(deviceNameHeader),
   );
 }
 
@@ -180,7 +380,7 @@ export function ResendTwoFactorAuthForLoginDecorator() {
     ApiOperation({
       summary: 'Resend OTP for Two-Factor Authentication during Login',
       description:
-        'This endpoint is used when a user needs the OTP resent to their email during the login process. The user must provide a valid temporary authentication token.',
+        'This endpoint is used when a user needs the OTP resent to their email, or by SMS when that is their 2FA method, during the login process. The user must provide a valid temporary authentication token.',
     }),
     ApiOkResponse({
       description: 'OTP has been resent successfully',
@@ -192,54 +392,126 @@ export function ResendTwoFactorAuthForLoginDecorator() {
   );
 }
 
-export function LoginFromNewDeviceWithTwoFactorDecorator() {
+export function SetupTwoFactorAuthDecorator() {
   return applyDecorators(
     ApiOperation({
-      summary: 'Login from new device with Two-Factor Authentication',
+      summary: 'Setup Two-Factor Authentication',
       description:
-        'This endpoint allows users with new device to login by providing their email and the OTP sent to their email. If the OTP matches and is valid, the user will be authenticated.',
+        'This endpoint initiates the setup of Two-Factor Authentication by sending an OTP to the user’s email. The user must verify the OTP to complete the setup. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes.',
     }),
     ApiOkResponse({
-      description: 'User is logged in successfully, returns access token',
-      type: AuthenticatedResponseDto,
+      description: '2FA setup initiated, OTP sent to email',
     }),
     ApiBadRequestResponse(commonErrorResponses.badRequest),
-    ApiNotFoundResponse(commonErrorResponses.notFound),
-    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
-    ApiBody({ type: LoginWithTwoFactorAuthenticationDto }),
-    // UseGuards(TwoFactorAuthGuard),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
   );
 }
 
-export function SetupTwoFactorAuthDecorator() {
+export function VerifyTwoFactorAuthDecorator() {
   return applyDecorators(
     ApiOperation({
-      summary: 'Setup Two-Factor Authentication',
+      summary: 'Verify OTP for Two-Factor Authentication Setup',
       description:
-        'This endpoint initiates the setup of Two-Factor Authentication by sending an OTP to the user’s email. The user must verify the OTP to complete the setup.',
+        'This endpoint verifies the OTP provided by the user during the setup of Two-Factor Authentication. If the OTP is valid, 2FA is enabled for the user. When 2FA was off, the response includes recovery codes, which are only shown this once. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes. When 2FA is already on with another method, that re-authentication has to use a code of the current method.',
     }),
     ApiOkResponse({
-      description: '2FA setup initiated, OTP sent to email',
+      description: '2FA has been set up successfully',
     }),
     ApiBadRequestResponse(commonErrorResponses.badRequest),
-    UseGuards(JwtAuthGuard),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
+    ApiBody({ type: ValidateOtpDto }),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
   );
 }
 
-export function VerifyTwoFactorAuthDecorator() {
+export function SetupTotpDecorator() {
   return applyDecorators(
     ApiOperation({
-      summary: 'Verify OTP for Two-Factor Authentication Setup',
+      summary: 'Setup authenticator app Two-Factor Authentication',
       description:
-        'This endpoint verifies the OTP provided by the user during the setup of Two-Factor Authentication. If the OTP is valid, 2FA is enabled for the user.',
+        'Starts enrolling an authenticator app (Google Authenticator, 1Password and other RFC 6238 apps). Returns the secret and an otpauth:// URI to show as a QR code. Nothing changes until the first code is confirmed with verify-totp-to-enable. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes.',
     }),
     ApiOkResponse({
-      description: '2FA has been set up successfully',
+      description: 'Returns the secret and the QR code payload',
+      type: TotpSetupResponseDto,
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
+  );
+}
+
+export function VerifyTotpToEnableDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Confirm authenticator app setup',
+      description:
+        'Verifies the first code from the authenticator app and makes it the 2FA method of the user, replacing emailed codes. Enabling 2FA with email again switches back. When 2FA was off, the response includes recovery codes, which are only shown this once. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes. When 2FA is already on, including with an authenticator app, that re-authentication has to use a code of the current method.',
+    }),
+    ApiOkResponse({
+      description: 'The authenticator app is now used for 2FA',
     }),
     ApiBadRequestResponse(commonErrorResponses.badRequest),
-    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
     ApiBody({ type: ValidateOtpDto }),
-    UseGuards(JwtAuthGuard),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
+  );
+}
+
+export function SetupSmsTwoFactorAuthDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Setup SMS Two-Factor Authentication',
+      description:
+        'Sends an OTP by SMS to the verified phone number of the user. Nothing changes until the code is confirmed with verify-sms-2fa-to-enable. Call it again to get a new code. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes.',
+    }),
+    ApiOkResponse({
+      description: '2FA setup initiated, OTP sent by SMS',
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
+  );
+}
+
+export function VerifySmsTwoFactorAuthToEnableDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Confirm SMS Two-Factor Authentication setup',
+      description:
+        'Verifies the OTP sent by SMS and makes SMS the 2FA method of the user, so login codes are sent to their phone. Enabling 2FA with email or an authenticator app switches away from it. When 2FA was off, the response includes recovery codes, which are only shown this once. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes. When 2FA is already on with another method, that re-authentication has to use a code of the current method.',
+    }),
+    ApiOkResponse({
+      description: 'Login codes are now sent by SMS',
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
+    ApiBody({ type: ValidateOtpDto }),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
+  );
+}
+
+export function RegenerateRecoveryCodesDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Generate new 2FA recovery codes',
+      description:
+        'Replaces the recovery codes of the user with a new set, the old codes stop working. Each code can be used once at the 2FA login step instead of the usual code. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes.',
+    }),
+    ApiCreatedResponse({
+      description: 'Returns the new recovery codes, only shown this once',
+      type: RecoveryCodesDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
   );
 }
 
@@ -248,7 +520,7 @@ export function ResendTwoFactorAuthDecorator() {
     ApiOperation({
       summary: 'Resend OTP for Two-Factor Authentication',
       description:
-        'This endpoint resends the OTP to the user’s email for Two-Factor Authentication. It can be used if the user did not receive the OTP initially or if the OTP has expired.',
+        'This endpoint resends the OTP for Two-Factor Authentication, to the user’s phone when SMS is their 2FA method and to their email otherwise. It can be used if the user did not receive the OTP initially or if the OTP has expired.',
     }),
     ApiOkResponse({
       description: 'OTP has been resent successfully',
@@ -264,15 +536,15 @@ export function DisableTwoFactorAuthDecorator() {
     ApiOperation({
       summary: 'Initiate Two-Factor Authentication Disabling',
       description:
-        'This endpoint initiates the disabling of Two-Factor Authentication by requiring the user to verify their identity with an OTP.',
+        'This endpoint initiates the disabling of Two-Factor Authentication by requiring the user to verify their identity with an OTP. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes.',
     }),
     ApiOkResponse({
       description: '2FA disabling initiated, verify OTP to proceed',
     }),
     ApiBadRequestResponse(commonErrorResponses.badRequest),
-    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
     ApiBearerAuth(),
-    UseGuards(JwtAuthGuard),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
   );
 }
 
@@ -281,16 +553,16 @@ export function VerifyTwoFactorAuthToDisableDecorator() {
     ApiOperation({
       summary: 'Verify OTP to Disable Two-Factor Authentication',
       description:
-        'This endpoint verifies the OTP provided by the user to disable Two-Factor Authentication. If the OTP is valid, 2FA will be disabled for the user.',
+        'This endpoint verifies the OTP provided by the user to disable Two-Factor Authentication. If the OTP is valid, 2FA will be disabled for the user. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes.',
     }),
     ApiOkResponse({
       description: '2FA has been disabled successfully',
     }),
     ApiBadRequestResponse(commonErrorResponses.badRequest),
-    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
     ApiBody({ type: ValidateOtpDto }),
     ApiBearerAuth(),
-    UseGuards(JwtAuthGuard),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
   );
 }
 
@@ -363,3 +635,310 @@ export function ConfirmPhoneSetupDecorator() {
     UseGuards(JwtAuthGuard),
   );
 }
+
+export function GetSessionsDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List active sessions',
+      description:
+        'Lists every device the current user is logged in on, with device name, IP address and last use. The session of the current access token is marked as current.',
+    }),
+    ApiOkResponse({
+      description: 'Returns the active sessions of the user',
+      type: [SessionDto],
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function RevokeSessionDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Revoke a session',
+      description:
+        'Logs the given session out by revoking its refresh tokens. The device has to log in again once its access token expires.',
+    }),
+    ApiParam({ name: 'sessionId', description: 'Session ID' }),
+    ApiOkResponse({
+      description: 'Session has been revoked',
+    }),
+    ApiNotFoundResponse(commonErrorResponses.notFound),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function RevokeOtherSessionsDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Revoke all other sessions',
+      description:
+        'Logs out every device of the current user except the one making the request.',
+    }),
+    ApiOkResponse({
+      description: 'Other sessions have been revoked',
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function GetTrustedDevicesDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List trusted devices',
+      description:
+        'Lists the devices that skip the 2FA step at login. The device of the current request is marked as current.',
+    }),
+    ApiOkResponse({
+      description: 'Returns the trusted devices of the user',
+      type: [TrustedDeviceDto],
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function RevokeTrustedDeviceDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Revoke a trusted device',
+      description:
+        'The device has to pass the 2FA step again at its next login. Sessions it already has are not affected.',
+    }),
+    ApiParam({ name: 'deviceId', description: 'Trusted device ID' }),
+    ApiOkResponse({
+      description: 'The device is no longer trusted',
+    }),
+    ApiNotFoundResponse(commonErrorResponses.notFound),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function RevokeTrustedDevicesDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Revoke all trusted devices',
+      description:
+        'Every device of the current user, this one included, has to pass the 2FA step again at its next login.',
+    }),
+    ApiOkResponse({
+      description: 'No device is trusted anymore',
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function RotateSigningKeyDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Rotate the access token signing key : ADMIN',
+      description:
+        'Generates a new signing key that is used for every access token from now on. The previous key stays in the JWKS until the tokens it signed have expired, so nobody is logged out by a rotation.',
+    }),
+    ApiCreatedResponse({
+      description: 'Returns the kid of the new signing key',
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiForbiddenResponse(commonErrorResponses.forbidden),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, AdminGuard),
+  );
+}
+
+export function CreatePersonalAccessTokenDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Create an API key',
+      description:
+        'Creates a long lived key for scripts and CI. The key is only returned in this response, store it right away. It can only reach routes that accept one of its scopes, and cannot be used to manage keys.',
+    }),
+    ApiCreatedResponse({
+      description: 'Returns the key and its details',
+      type: CreatedPersonalAccessTokenDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function GetPersonalAccessTokensDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'List API keys',
+      description:
+        'Returns the API keys of the user with when and from where they were last used. The keys themselves are never returned again.',
+    }),
+    ApiOkResponse({
+      description: 'Returns the API keys of the user',
+      type: [PersonalAccessTokenDto],
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function RevokePersonalAccessTokenDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Revoke an API key',
+      description: 'The key stops working immediately.',
+    }),
+    ApiParam({ name: 'tokenId', description: 'The id of the API key' }),
+    ApiOkResponse({ description: 'The API key has been revoked' }),
+    ApiNotFoundResponse(commonErrorResponses.notFound),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+const webAuthnOptionsExample = {
+  description:
+    'Returns the options to pass to the browser WebAuthn API, binary fields are base64url encoded',
+  schema: {
+    example: {
+      challenge: 'Q2hhbGxlbmdlIGZvciB0aGUgYnJvd3Nlcg',
+      rpId: 'example.com',
+      timeout: 300000,
+      userVerification: 'required',
+      allowCredentials: [],
+    },
+  },
+};
+
+export function WebAuthnRegistrationOptionsDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Start registering a passkey',
+      description:
+        'Returns the options for navigator.credentials.create(). The challenge is valid for five minutes. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes.',
+    }),
+    ApiCreatedResponse(webAuthnOptionsExample),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
+  );
+}
+
+export function WebAuthnRegisterDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Register a passkey',
+      description:
+        'Verifies the result of navigator.credentials.create() and saves the passkey. It can then be used to log in without a password, or as the second factor after a password login. Requires a sign in or a re-authentication at /auth/reauthenticate in the last 5 minutes.',
+    }),
+    ApiCreatedResponse({
+      description: 'Returns the registered passkey',
+      type: WebAuthnCredentialDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
+    ApiBody({ type: RegisterWebAuthnCredentialDto }),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
+  );
+}
+
+export function WebAuthnLoginOptionsDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Start a passkey login',
+      description:
+        'Returns the options for navigator.credentials.get(). No email is needed, the browser offers the passkeys it has for this site.',
+    }),
+    ApiCreatedResponse(webAuthnOptionsExample),
+  );
+}
+
+export function WebAuthnLoginDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Login with a passkey',
+      description:
+        'Verifies the result of navigator.credentials.get() and logs the user in. The authenticator must have verified the user (biometrics or PIN), so no 2FA step follows.',
+    }),
+    ApiCreatedResponse({
+      description: 'Returns tokens',
+      type: AuthenticatedResponseDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBody({ type: WebAuthnLoginDto }),
+    ApiHeader(deviceNameHeader),
+  );
+}
+
+export function WebAuthnTwoFactorOptionsDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Start using a passkey as the second factor',
+      description:
+        'For users with 2FA enabled, after the password login returned a tempAuthToken. Returns the options for navigator.credentials.get() limited to the passkeys of the user.',
+    }),
+    ApiCreatedResponse(webAuthnOptionsExample),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBody({ type: WebAuthnTwoFactorOptionsDto }),
+    UseGuards(TwoFactorAuthGuard),
+  );
+}
+
+export function WebAuthnTwoFactorLoginDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Complete a 2FA login with a passkey',
+      description:
+        'Alternative to login-with-two-factor-authentication. Verifies the result of navigator.credentials.get() for the user of the tempAuthToken and logs them in.',
+    }),
+    ApiCreatedResponse({
+      description: 'Returns tokens',
+      type: AuthenticatedResponseDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBody({ type: WebAuthnTwoFactorLoginDto }),
+    UseGuards(TwoFactorAuthGuard),
+    ApiHeader(deviceNameHeader),
+  );
+}
+
+export function GetWebAuthnCredentialsDecorator() {
+  return applyDecorators(
+    ApiOperation({ summary: 'List passkeys' }),
+    ApiOkResponse({
+      description: 'Returns the passkeys of the user',
+      type: [WebAuthnCredentialDto],
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function DeleteWebAuthnCredentialDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Remove a passkey',
+      description: 'The passkey can no longer be used to log in.',
+    }),
+    ApiParam({ name: 'credentialId', description: 'The id of the passkey' }),
+    ApiOkResponse({ description: 'The passkey has been removed' }),
+    ApiNotFoundResponse(commonErrorResponses.notFound),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
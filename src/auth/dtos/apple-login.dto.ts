@@ -0,0 +1,35 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AppleLoginDto {
+  @ApiProperty({
+    description: 'The identity token (id_token) from Sign in with Apple',
+    example: 'eyJraWQiOiJXNldjT0tCIiwiYWxnIjoiUlMyNTYifQ...',
+  })
+  @IsString()
+  identityToken: string;
+
+  @ApiPropertyOptional({
+    description:
+      'The nonce sent in the authorization request, checked against the token when given',
+  })
+  @IsOptional()
+  @IsString()
+  nonce?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Apple only shares the name the first time a user signs in, pass it on from the authorization response',
+    example: 'Jane',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  firstName?: string;
+
+  @ApiPropertyOptional({ example: 'Appleseed' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  lastName?: string;
+}
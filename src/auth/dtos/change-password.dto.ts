@@ -1,9 +1,9 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsStrongPassword, IsNotEmpty } from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 
 export class ChangePasswordDto {
   @IsNotEmpty()
-  @IsStrongPassword()
+  @IsString()
   @ApiProperty({
     description: 'Old password of the user',
     example: '123456',
@@ -11,10 +11,11 @@ export class ChangePasswordDto {
   oldPassword: string;
 
   @IsNotEmpty()
-  @IsStrongPassword()
+  @IsString()
   @ApiProperty({
-    description: 'new password of the user',
-    example: 'abcdefg',
+    description:
+      'new password of the user, checked against the password policy',
+    example: 'N3w-Passw0rd!',
   })
   newPassword: string;
 }
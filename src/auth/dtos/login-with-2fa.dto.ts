@@ -1,12 +1,38 @@
-import { IsNotEmpty } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AuthenticatedResponseDto } from './auth-response.dto';
 
 export class LoginWithTwoFactorAuthenticationDto {
+  @IsString()
   @IsNotEmpty()
-  @ApiProperty({ description: 'The OTP code sent to the user.' })
+  @ApiProperty({
+    description:
+      'The OTP code sent to the user, the code from their authenticator app, or a recovery code.',
+  })
   otp: string;
 
+  @IsString()
   @IsNotEmpty()
-  @ApiProperty({ description: 'The OTP code sent to the user.' })
+  @ApiProperty({
+    description:
+      'The temporary token returned by the first login step when 2FA is enabled.',
+  })
   tempAuthToken: string;
+
+  @IsOptional()
+  @IsBoolean()
+  @ApiPropertyOptional({
+    description:
+      'Trust this device, so logins from it skip the 2FA step for a while.',
+    example: true,
+  })
+  trustDevice?: boolean;
+}
+
+export class TwoFactorLoginResponseDto extends AuthenticatedResponseDto {
+  @ApiPropertyOptional({
+    description:
+      'Returned when trustDevice was set, send it in the X-Trusted-Device header at login. In cookie mode it is set as a cookie instead.',
+  })
+  trustedDeviceToken?: string;
 }
@@ -0,0 +1,21 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MagicLinkRequestDto {
+  @IsEmail()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'The email address to send the sign-in link to.',
+    example: 'example@email.com',
+  })
+  email: string;
+}
+
+export class ConsumeMagicLinkDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'The token from the sign-in link.',
+  })
+  token: string;
+}
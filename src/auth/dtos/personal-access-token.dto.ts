@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinDate,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiScope } from 'src/oauth/enums';
+
+export class CreatePersonalAccessTokenDto {
+  @ApiProperty({
+    description: 'Name to recognize the key by',
+    example: 'CI deploy',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'What the key may be used for',
+    example: ['account:read'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.values(ApiScope), { each: true })
+  scopes: string[];
+
+  @ApiPropertyOptional({
+    description: 'When the key stops working, never when left out',
+    example: '2027-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date())
+  expiresAt?: Date;
+}
+
+export class PersonalAccessTokenDto {
+  @ApiProperty({ example: '02302d6e-4eea-403d-a466-6ba902b004fb' })
+  id: string;
+
+  @ApiProperty({ example: 'CI deploy' })
+  name: string;
+
+  @ApiProperty({ example: ['account:read'] })
+  scopes: string[];
+
+  @ApiProperty({ nullable: true })
+  expiresAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ example: '192.168.1.10', nullable: true })
+  lastUsedIp: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class CreatedPersonalAccessTokenDto extends PersonalAccessTokenDto {
+  @ApiProperty({
+    description:
+      'The key, only returned once. Send it as "Authorization: ApiKey <key>" or as a bearer token.',
+    example: 'pat_Yk3mZ0vJd1sVd6lHn5mUxAq9B2wPzR7tLcE4hN8fGjI',
+  })
+  token: string;
+}
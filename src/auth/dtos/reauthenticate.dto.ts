@@ -0,0 +1,27 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReauthenticateDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @ApiPropertyOptional({ description: 'The current password of the user.' })
+  password?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @ApiPropertyOptional({
+    description:
+      'A code from the authenticator app, the code sent by email or SMS with reauthenticate/code, or a recovery code. Used when no password is sent.',
+  })
+  otp?: string;
+}
+
+export class ReauthenticatedResponseDto {
+  @ApiProperty({
+    description:
+      'An access token for the same session that allows sensitive changes for the next 5 minutes',
+  })
+  accessToken: string;
+}
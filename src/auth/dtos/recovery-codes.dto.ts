@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RecoveryCodesDto {
+  @ApiProperty({
+    description:
+      'One time codes to log in with when the 2FA method is not available, only shown once',
+    example: ['3f9a1-c07e2', '8b4d0-51fa9'],
+  })
+  recoveryCodes: string[];
+}
@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsStrongPassword } from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class ResetPasswordDto {
@@ -7,7 +7,10 @@ export class ResetPasswordDto {
   resetToken: string;
 
   @IsNotEmpty()
-  @IsStrongPassword()
-  @ApiProperty({ description: 'The new password for the user.' })
+  @IsString()
+  @ApiProperty({
+    description:
+      'The new password for the user, checked against the password policy.',
+  })
   newPassword: string;
 }
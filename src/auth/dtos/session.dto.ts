@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionDto {
+  @ApiProperty({
+    description: 'The id of the session',
+    example: '02302d6e-4eea-403d-a466-6ba902b004fb',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Device name sent with the X-Device-Name header at login',
+    example: 'iPhone 15',
+    nullable: true,
+  })
+  deviceName: string | null;
+
+  @ApiProperty({
+    description: 'User agent of the client that started the session',
+    example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({
+    description: 'Last known IP address of the session',
+    example: '192.168.1.10',
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({ description: 'When the session was started' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'When the session was last refreshed' })
+  lastUsedAt: Date;
+
+  @ApiProperty({
+    description:
+      'Client id of the application the session was granted to over OAuth',
+    example: 'Zq3mC0vJd1sVd6lHn5mUxA',
+    nullable: true,
+  })
+  clientId: string | null;
+
+  @ApiProperty({
+    description: 'Whether this is the session of the current request',
+    example: true,
+  })
+  current: boolean;
+}
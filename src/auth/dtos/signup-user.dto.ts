@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsEmail, IsStrongPassword } from 'class-validator';
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
 
 export class SignupUserDto {
   @ApiProperty({
@@ -10,10 +10,11 @@ export class SignupUserDto {
   email: string;
 
   @ApiProperty({
-    description: 'The password of the user',
+    description:
+      'The password of the user, checked against the password policy',
     example: 'StrongPassw0rd!',
-    minLength: 5,
   })
-  @IsStrongPassword()
+  @IsNotEmpty()
+  @IsString()
   password: string;
 }
@@ -0,0 +1,35 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SocialProvidersDto {
+  @ApiProperty({
+    description: 'The providers users can sign in with',
+    example: ['google', 'github'],
+  })
+  providers: string[];
+}
+
+export class SocialAuthorizationDto {
+  @ApiProperty({
+    description: "Send the browser here, to the provider's sign in page",
+    example:
+      'https://github.com/login/oauth/authorize?response_type=code&client_id=...',
+  })
+  authorizationUrl: string;
+}
+
+export class SocialLoginCallbackDto {
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'The code the provider added to the redirect URL.',
+  })
+  code: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @ApiProperty({
+    description: 'The state the provider added to the redirect URL.',
+  })
+  state: string;
+}
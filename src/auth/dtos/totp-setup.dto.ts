@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TotpSetupResponseDto {
+  @ApiProperty({
+    description: 'The secret, for users who type it into the app by hand',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret: string;
+
+  @ApiProperty({
+    description: 'Payload of the QR code to scan with the authenticator app',
+    example:
+      'otpauth://totp/NestJS%20Auth%3Aexample%40email.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=NestJS+Auth&algorithm=SHA1&digits=6&period=30',
+  })
+  otpauthUri: string;
+}
@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TrustedDeviceDto {
+  @ApiProperty({
+    description: 'The id of the trusted device',
+    example: '5f0c1e7a-2d4b-4a8e-9c3f-7b6a5d4e3c2b',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Device name sent with the X-Device-Name header at login',
+    example: 'iPhone 15',
+    nullable: true,
+  })
+  deviceName: string | null;
+
+  @ApiProperty({
+    description: 'User agent of the browser that was trusted',
+    example: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({
+    description: 'IP address the device was trusted from',
+    example: '192.168.1.10',
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({ description: 'When the device stops skipping 2FA' })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'When the device last skipped 2FA',
+    nullable: true,
+  })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ description: 'When the device was trusted' })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Whether this is the device of the current request',
+    example: true,
+  })
+  current: boolean;
+}
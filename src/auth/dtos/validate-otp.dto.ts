@@ -1,7 +1,8 @@
-import { IsNotEmpty } from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class ValidateOtpDto {
+  @IsString()
   @IsNotEmpty()
   @ApiProperty({ description: 'The OTP code sent to the user.' })
   otp: string;
@@ -0,0 +1,142 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+// Credentials are sent in the JSON form of PublicKeyCredential, binary fields base64url encoded
+
+export class AttestationResponseDto {
+  @ApiProperty({ description: 'base64url encoded client data JSON' })
+  @IsString()
+  clientDataJSON: string;
+
+  @ApiProperty({ description: 'base64url encoded attestation object' })
+  @IsString()
+  attestationObject: string;
+
+  @ApiPropertyOptional({ example: ['internal', 'hybrid'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  transports?: string[];
+}
+
+export class AssertionResponseDto {
+  @ApiProperty({ description: 'base64url encoded client data JSON' })
+  @IsString()
+  clientDataJSON: string;
+
+  @ApiProperty({ description: 'base64url encoded authenticator data' })
+  @IsString()
+  authenticatorData: string;
+
+  @ApiProperty({ description: 'base64url encoded signature' })
+  @IsString()
+  signature: string;
+
+  @ApiPropertyOptional({
+    description: 'base64url encoded user handle, sent by passkeys',
+  })
+  @IsOptional()
+  @IsString()
+  userHandle?: string;
+}
+
+export class RegistrationCredentialDto {
+  @ApiProperty({ description: 'Credential id, base64url' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ example: 'public-key' })
+  @IsIn(['public-key'])
+  type: string;
+
+  @ApiProperty({ type: AttestationResponseDto })
+  @ValidateNested()
+  @Type(() => AttestationResponseDto)
+  response: AttestationResponseDto;
+}
+
+export class AuthenticationCredentialDto {
+  @ApiProperty({ description: 'Credential id, base64url' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ example: 'public-key' })
+  @IsIn(['public-key'])
+  type: string;
+
+  @ApiProperty({ type: AssertionResponseDto })
+  @ValidateNested()
+  @Type(() => AssertionResponseDto)
+  response: AssertionResponseDto;
+}
+
+export class RegisterWebAuthnCredentialDto {
+  @ApiPropertyOptional({
+    description: 'Name to recognize the passkey by',
+    example: 'MacBook Touch ID',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({
+    description: 'The result of navigator.credentials.create()',
+    type: RegistrationCredentialDto,
+  })
+  @ValidateNested()
+  @Type(() => RegistrationCredentialDto)
+  credential: RegistrationCredentialDto;
+}
+
+export class WebAuthnLoginDto {
+  @ApiProperty({
+    description: 'The result of navigator.credentials.get()',
+    type: AuthenticationCredentialDto,
+  })
+  @ValidateNested()
+  @Type(() => AuthenticationCredentialDto)
+  credential: AuthenticationCredentialDto;
+}
+
+export class WebAuthnTwoFactorOptionsDto {
+  @ApiProperty({ description: 'The temporary token from the login response' })
+  @IsNotEmpty()
+  tempAuthToken: string;
+}
+
+export class WebAuthnTwoFactorLoginDto extends WebAuthnLoginDto {
+  @ApiProperty({ description: 'The temporary token from the login response' })
+  @IsNotEmpty()
+  tempAuthToken: string;
+}
+
+export class WebAuthnCredentialDto {
+  @ApiProperty({ example: '02302d6e-4eea-403d-a466-6ba902b004fb' })
+  id: string;
+
+  @ApiProperty({ example: 'MacBook Touch ID' })
+  name: string;
+
+  @ApiProperty({ example: ['internal', 'hybrid'] })
+  transports: string[];
+
+  @ApiProperty({ description: 'Whether the passkey is synced between devices' })
+  backedUp: boolean;
+
+  @ApiProperty({ nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
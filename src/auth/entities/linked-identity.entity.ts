@@ -0,0 +1,39 @@
+import { User } from '../../users/entities/user.entity';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  ManyToOne,
+  CreateDateColumn,
+} from 'typeorm';
+
+// An account at a social login provider that signs in as the user
+@Entity()
+@Index(['provider', 'subject'], { unique: true })
+export class LinkedIdentity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Column()
+  provider: string;
+
+  @Column()
+  subject: string; // The provider's ID for the user, emails can change
+
+  @Column({ type: 'varchar', nullable: true })
+  email: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  profile: Record<string, any> | null; // As the provider last sent it
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamp with time zone' })
+  lastUsedAt: Date;
+}
@@ -0,0 +1,26 @@
+import { User } from '../../users/entities/user.entity';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  ManyToOne,
+  CreateDateColumn,
+} from 'typeorm';
+
+// Earlier passwords of a user, kept so they cannot be used again
+@Entity()
+export class PasswordHistory {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Column()
+  passwordHash: string; // Copied from User.password, in whichever format it was hashed with
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+}
@@ -0,0 +1,41 @@
+import { User } from '../../users/entities/user.entity';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  ManyToOne,
+  CreateDateColumn,
+} from 'typeorm';
+
+@Entity()
+export class PersonalAccessToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Column()
+  name: string;
+
+  @Index({ unique: true })
+  @Column({ length: 64 })
+  tokenHash: string; // sha256 of the key, the key itself is only shown once
+
+  @Column('text', { array: true })
+  scopes: string[];
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  lastUsedIp: string | null;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+}
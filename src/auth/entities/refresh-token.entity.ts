@@ -6,6 +6,7 @@ import {
   Index,
   ManyToOne,
 } from 'typeorm';
+import { Session } from './session.entity';
 
 @Entity()
 export class RefreshToken {
@@ -16,8 +17,22 @@ export class RefreshToken {
   @ManyToOne(() => User, (user) => user.refreshTokens)
   user: User;
 
-  @Column()
-  token: string;
+  @Index()
+  @ManyToOne(() => Session, (session) => session.refreshTokens, {
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  session: Session | null; // The session is the token family, every rotation stays in it
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  usedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  replacedById: string | null;
+
+  @Index()
+  @Column({ length: 64 })
+  tokenHash: string; // sha256 of the signed JWT, the row id is carried in the token as jti
 
   @Column('bigint')
   expiresIn: number;
@@ -0,0 +1,12 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm';
+
+// A denylist entry, kept in the database so it survives restarts and is never evicted early
+@Entity()
+export class RevokedAccessToken {
+  @PrimaryColumn({ length: 36 })
+  id: string; // The jti of a single access token, or the id of a revoked session
+
+  @Index()
+  @Column({ type: 'timestamp with time zone' })
+  expiresAt: Date; // Every token the entry covers has expired by then
+}
@@ -0,0 +1,53 @@
+import { User } from '../../users/entities/user.entity';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+} from 'typeorm';
+import { RefreshToken } from './refresh-token.entity';
+
+@Entity()
+export class Session {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @ManyToOne(() => User, (user) => user.sessions, { onDelete: 'CASCADE' })
+  user: User;
+
+  @OneToMany(() => RefreshToken, (refreshToken) => refreshToken.session)
+  refreshTokens: RefreshToken[];
+
+  @Column({ type: 'varchar', nullable: true })
+  deviceName: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  ipAddress: string | null;
+
+  // Set when the session was granted to a third party application through OAuth
+  @Column({ type: 'varchar', nullable: true })
+  clientId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  scope: string | null;
+
+  // When and how the user last proved who they are in this session, carried into access tokens as auth_time and amr
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  authenticatedAt: Date | null;
+
+  @Column('text', { array: true, nullable: true })
+  amr: string[] | null;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamp with time zone' })
+  lastUsedAt: Date;
+}
@@ -0,0 +1,41 @@
+import { User } from '../../users/entities/user.entity';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  ManyToOne,
+  CreateDateColumn,
+} from 'typeorm';
+
+@Entity()
+export class TrustedDevice {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Index({ unique: true })
+  @Column({ length: 64 })
+  tokenHash: string; // sha256 of the device token, the token lives in the device cookie
+
+  @Column({ type: 'varchar', nullable: true })
+  deviceName: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  ipAddress: string | null;
+
+  @Column({ type: 'timestamp with time zone' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  lastUsedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+}
@@ -0,0 +1,47 @@
+import { User } from '../../users/entities/user.entity';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  ManyToOne,
+  CreateDateColumn,
+} from 'typeorm';
+
+@Entity('webauthn_credentials')
+export class WebAuthnCredential {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Index({ unique: true })
+  @Column()
+  credentialId: string; // base64url, as the browser reports it
+
+  @Column('text')
+  publicKey: string; // SPKI PEM of the authenticator's key
+
+  @Column('int')
+  algorithm: number; // COSE algorithm identifier
+
+  @Column({ type: 'bigint', default: 0 })
+  signCount: number;
+
+  @Column('text', { array: true, default: '{}' })
+  transports: string[];
+
+  @Column({ default: false })
+  backedUp: boolean; // Synced passkeys survive the loss of a device
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  lastUsedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+}
@@ -2,3 +2,10 @@ export enum DataToBeVerified {
   Phone = 'PHONE',
   Email = 'EMAIL',
 }
+
+// What a 6-digit code was sent for, each has its own code and attempt count on the user
+export enum OtpPurpose {
+  TwoFactor = 'TWO_FACTOR',
+  Email = 'EMAIL',
+  Phone = 'PHONE',
+}
@@ -0,0 +1,52 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { AuthCookiesService } from '../auth-cookies.service';
+import { TrustedDevicesService } from '../trusted-devices.service';
+
+// In cookie mode, moves the tokens of authenticated responses out of the body and into cookies
+@Injectable()
+export class AuthCookiesInterceptor implements NestInterceptor {
+  constructor(
+    private readonly authCookiesService: AuthCookiesService,
+    private readonly trustedDevicesService: TrustedDevicesService,
+  ) {}
+
+  intercept(context: ExecutionContext, handler: CallHandler): Observable<any> {
+    return handler.handle().pipe(
+      map((data) => {
+        if (!this.authCookiesService.enabled || !data?.accessToken) {
+          return data;
+        }
+
+        const response = context.switchToHttp().getResponse();
+        const { accessToken, refreshToken, trustedDeviceToken, ...rest } = data;
+        if (trustedDeviceToken) {
+          this.authCookiesService.setTrustedDevice(
+            response,
+            trustedDeviceToken,
+            this.trustedDevicesService.trustDays,
+          );
+        }
+
+        // Re-authentication only replaces the access token, the session and its refresh token stay
+        if (!refreshToken) {
+          this.authCookiesService.setAccessToken(response, accessToken);
+          return rest;
+        }
+        return {
+          ...rest,
+          ...this.authCookiesService.setTokens(response, {
+            accessToken,
+            refreshToken,
+          }),
+        };
+      }),
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { KeyRingService } from './key-ring.service';
+
+@ApiTags('auth')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly keyRingService: KeyRingService) {}
+
+  @Get('jwks.json')
+  @ApiOperation({
+    summary: 'Public keys for verifying access tokens',
+    description:
+      'JSON Web Key Set with every key that may have signed a currently valid access token. Match the kid header of a token against this set to verify it without sharing any secret.',
+  })
+  @ApiOkResponse({ description: 'Returns the JSON Web Key Set' })
+  getJwks() {
+    return this.keyRingService.getJwks();
+  }
+}
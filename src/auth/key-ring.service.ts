@@ -0,0 +1,187 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPair,
+  JsonWebKey,
+  KeyObject,
+  randomBytes,
+} from 'crypto';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { promisify } from 'util';
+import { ACCESS_TOKEN_TTL } from 'src/common/constants';
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+export const SIGNING_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'ES256'];
+
+// Shape of a key file on disk, one file per key in the keys directory
+type StoredKey = {
+  kid: string;
+  alg: SigningAlgorithm;
+  createdAt: string;
+  retiresAt: string | null;
+  privateKey: string;
+};
+
+type LoadedKey = StoredKey & {
+  publicKey: KeyObject;
+};
+
+@Injectable()
+export class KeyRingService implements OnModuleInit {
+  private readonly logger = new Logger(KeyRingService.name);
+  private readonly keysDir: string;
+  private readonly algorithm: SigningAlgorithm;
+  private keys: LoadedKey[] = [];
+  private lastLoadedAt = 0;
+
+  constructor(private readonly configService: ConfigService) {
+    this.keysDir = resolve(
+      this.configService.get<string>('JWT_KEYS_DIR') || 'keys',
+    );
+    this.algorithm =
+      this.configService.get<SigningAlgorithm>('JWT_SIGNING_ALGORITHM') ||
+      'RS256';
+  }
+
+  async onModuleInit() {
+    await this.loadKeys();
+
+    // First start, or every key has been retired: create a key to sign with
+    if (!this.getActiveKey()) {
+      await this.generateKey();
+    }
+  }
+
+  getSigningKey(): { kid: string; alg: SigningAlgorithm; privateKey: string } {
+    const { kid, alg, privateKey } = this.getActiveKey();
+    return { kid, alg, privateKey };
+  }
+
+  async findVerificationKey(kid: string): Promise<string | null> {
+    let key = this.keys.find((key) => key.kid === kid);
+
+    // Another instance may have rotated the keys, re-read the directory at most once a minute
+    if (!key && Date.now() - this.lastLoadedAt > 60000) {
+      await this.loadKeys();
+      key = this.keys.find((key) => key.kid === kid);
+    }
+
+    if (!key || this.isExpired(key)) {
+      return null;
+    }
+    return key.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  getJwks(): { keys: JsonWebKey[] } {
+    return {
+      keys: this.keys
+        .filter((key) => !this.isExpired(key))
+        .map((key) => ({
+          ...key.publicKey.export({ format: 'jwk' }),
+          kid: key.kid,
+          alg: key.alg,
+          use: 'sig',
+        })),
+    };
+  }
+
+  async rotate(): Promise<{ kid: string }> {
+    const previousKey = this.getActiveKey();
+    const newKey = await this.generateKey();
+
+    // The old key keeps verifying until the last access token signed with it has expired
+    if (previousKey) {
+      previousKey.retiresAt = new Date(
+        Date.now() + ACCESS_TOKEN_TTL * 1000,
+      ).toISOString();
+      await this.writeKey(previousKey);
+    }
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'rotate-signing-key',
+        kid: newKey.kid,
+        retiredKid: previousKey?.kid ?? null,
+      }),
+    );
+
+    return { kid: newKey.kid };
+  }
+
+  private getActiveKey(): LoadedKey | undefined {
+    // The newest key that has not been retired signs new tokens
+    return this.keys
+      .filter((key) => !key.retiresAt)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  }
+
+  private isExpired(key: LoadedKey): boolean {
+    return !!key.retiresAt && new Date(key.retiresAt) < new Date();
+  }
+
+  private async loadKeys(): Promise<void> {
+    await fs.mkdir(this.keysDir, { recursive: true });
+    const files = (await fs.readdir(this.keysDir)).filter((file) =>
+      file.endsWith('.json'),
+    );
+
+    const keys: LoadedKey[] = [];
+    for (const file of files) {
+      const stored: StoredKey = JSON.parse(
+        await fs.readFile(join(this.keysDir, file), 'utf8'),
+      );
+      const key = {
+        ...stored,
+        publicKey: createPublicKey(createPrivateKey(stored.privateKey)),
+      };
+
+      // Keys past their retirement can no longer verify anything, clean them up
+      if (this.isExpired(key)) {
+        await fs.unlink(join(this.keysDir, file));
+        continue;
+      }
+      keys.push(key);
+    }
+
+    this.keys = keys;
+    this.lastLoadedAt = Date.now();
+  }
+
+  private async generateKey(): Promise<LoadedKey> {
+    const { privateKey, publicKey } =
+      this.algorithm === 'ES256'
+        ? await generateKeyPairAsync('ec', { namedCurve: 'P-256' })
+        : await generateKeyPairAsync('rsa', { modulusLength: 2048 });
+
+    const key: LoadedKey = {
+      kid: randomBytes(12).toString('base64url'),
+      alg: this.algorithm,
+      createdAt: new Date().toISOString(),
+      retiresAt: null,
+      privateKey: privateKey
+        .export({ type: 'pkcs8', format: 'pem' })
+        .toString(),
+      publicKey,
+    };
+
+    await this.writeKey(key);
+    this.keys.push(key);
+    return key;
+  }
+
+  private async writeKey(key: LoadedKey): Promise<void> {
+    const { publicKey, ...stored } = key;
+    await fs.mkdir(this.keysDir, { recursive: true });
+    await fs.writeFile(
+      join(this.keysDir, `${key.kid}.json`),
+      JSON.stringify(stored, null, 2),
+      { mode: 0o600 },
+    );
+  }
+}
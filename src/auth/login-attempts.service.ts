@@ -0,0 +1,209 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { EmailService } from 'src/notifications/email.service';
+import { TooManyLoginAttemptsException } from 'src/common/exceptions/too-many-login-attempts.exception';
+
+const MAX_BACKOFF_DELAY = 5 * 60; // seconds
+
+// Counts wrong passwords per account (in the database) and per IP address (in the cache)
+@Injectable()
+export class LoginAttemptsService {
+  private readonly logger = new Logger(LoginAttemptsService.name);
+  private readonly maxAttempts: number;
+  private readonly backoffAfter: number;
+  private readonly lockoutMinutes: number;
+  private readonly maxIpAttempts: number;
+  private readonly maxSecondFactorAttempts: number;
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {
+    this.maxAttempts =
+      Number(this.configService.get<string>('LOGIN_MAX_ATTEMPTS')) || 10;
+    this.backoffAfter =
+      Number(this.configService.get<string>('LOGIN_BACKOFF_AFTER')) || 3;
+    this.lockoutMinutes =
+      Number(this.configService.get<string>('LOGIN_LOCKOUT_MINUTES')) || 15;
+    this.maxIpAttempts =
+      Number(this.configService.get<string>('LOGIN_MAX_IP_ATTEMPTS')) || 50;
+    // The same limit as for emailed codes
+    this.maxSecondFactorAttempts =
+      Number(this.configService.get<string>('OTP_MAX_ATTEMPTS')) || 5;
+  }
+
+  // Runs before the password is checked, so a locked account cannot be logged into even with the right one
+  async assertCanAttempt(
+    user: User | null,
+    ipAddress: string | null,
+  ): Promise<void> {
+    if (
+      ipAddress &&
+      ((await this.cacheManager.get<number>(this.ipKey(ipAddress))) ?? 0) >=
+        this.maxIpAttempts
+    ) {
+      throw new TooManyLoginAttemptsException(
+        'Too many failed login attempts from this network. Please try again later.',
+        this.lockoutMinutes * 60,
+      );
+    }
+    if (!user) {
+      return;
+    }
+
+    this.assertNotLocked(user);
+    const now = Date.now();
+
+    // Every further failure doubles the wait before the next attempt
+    const delay = this.getDelay(user.failedLoginAttempts);
+    const retryAt = user.lastFailedLoginAt
+      ? user.lastFailedLoginAt.getTime() + delay * 1000
+      : 0;
+    if (retryAt > now) {
+      throw new TooManyLoginAttemptsException(
+        'Too many failed login attempts. Please wait before trying again.',
+        Math.ceil((retryAt - now) / 1000),
+      );
+    }
+  }
+
+  async recordFailure(
+    user: User | null,
+    ipAddress: string | null,
+  ): Promise<void> {
+    if (ipAddress) {
+      const key = this.ipKey(ipAddress);
+      const failures = ((await this.cacheManager.get<number>(key)) ?? 0) + 1;
+      await this.cacheManager.set(
+        key,
+        failures,
+        this.lockoutMinutes * 60 * 1000,
+      );
+    }
+    if (!user) {
+      return;
+    }
+
+    const attempts = await this.usersService.recordFailedLogin(user.id);
+    if (attempts < this.maxAttempts) {
+      return;
+    }
+    await this.lock(user, ipAddress);
+  }
+
+  // Authenticator and recovery codes stay valid when the login is started again, so instead of burning the code
+  // like OtpService, wrong ones are counted on the account until a right one and lock it.
+  // A password login does not reset the count.
+  async verifySecondFactor(
+    user: User,
+    verify: () => Promise<boolean>,
+  ): Promise<boolean> {
+    // The attempt is counted before the code is compared, so parallel guesses cannot get past the limit
+    const currentUser = await this.usersService.countOtpAttempt(
+      user.id,
+      'secondFactorAttempts',
+    );
+    if (!currentUser) {
+      return false;
+    }
+    this.assertNotLocked(currentUser);
+    if (currentUser.secondFactorAttempts > this.maxSecondFactorAttempts) {
+      return await this.lockAfterSecondFactor(currentUser);
+    }
+
+    if (await verify()) {
+      await this.usersService.update(currentUser.id, {
+        secondFactorAttempts: 0,
+      });
+      return true;
+    }
+    if (currentUser.secondFactorAttempts >= this.maxSecondFactorAttempts) {
+      return await this.lockAfterSecondFactor(currentUser);
+    }
+    return false;
+  }
+
+  async recordSuccess(user: User): Promise<void> {
+    if (
+      user.failedLoginAttempts ||
+      user.lastFailedLoginAt ||
+      user.lockedUntil
+    ) {
+      await this.usersService.update(user.id, {
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+      });
+    }
+  }
+
+  private assertNotLocked(user: User): void {
+    const now = Date.now();
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      throw new TooManyLoginAttemptsException(
+        'This account is temporarily locked after too many failed login attempts.',
+        Math.ceil((user.lockedUntil.getTime() - now) / 1000),
+      );
+    }
+  }
+
+  private async lockAfterSecondFactor(user: User): Promise<never> {
+    await this.lock(user, null);
+    throw new TooManyLoginAttemptsException(
+      'This account is temporarily locked after too many failed login attempts.',
+      this.lockoutMinutes * 60,
+    );
+  }
+
+  private async lock(user: User, ipAddress: string | null): Promise<void> {
+    // Start counting again once the lockout ends
+    const lockedUntil = new Date(Date.now() + this.lockoutMinutes * 60 * 1000);
+    await this.usersService.update(user.id, {
+      lockedUntil,
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      secondFactorAttempts: 0,
+    });
+
+    this.logger.warn(
+      JSON.stringify({
+        action: 'account-locked',
+        userId: user.id,
+        ipAddress,
+        lockedUntil,
+      }),
+    );
+
+    // A mail outage must not change the response, which would tell the caller the account was just locked
+    try {
+      await this.emailService.sendAccountLockedEmail(user.email, lockedUntil);
+    } catch (error) {
+      this.logger.error(
+        JSON.stringify({
+          action: 'account-locked-email-failed',
+          userId: user.id,
+        }),
+      );
+    }
+  }
+
+  private getDelay(failedAttempts: number): number {
+    if (failedAttempts < this.backoffAfter) {
+      return 0;
+    }
+    return Math.min(
+      2 ** (failedAttempts - this.backoffAfter),
+      MAX_BACKOFF_DELAY,
+    );
+  }
+
+  private ipKey(ipAddress: string): string {
+    return `login-attempts:ip:${ipAddress}`;
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { randomUUID } from 'crypto';
+import { UsersService } from '../users/users.service';
+import { User, UserStatus } from '../users/entities/user.entity';
+import { EmailService } from 'src/notifications/email.service';
+import { CryptoService } from './crypto.service';
+
+const MAGIC_LINK_PURPOSE = 'magic-link';
+const MAGIC_LINK_TTL = 15 * 60; // 15 minutes in seconds
+
+interface MagicLinkPayload {
+  purpose: string;
+  sub: string;
+  jti: string;
+  tokenVersion: number;
+  binding: string;
+}
+
+@Injectable()
+export class MagicLinkService {
+  private readonly logger = new Logger(MagicLinkService.name);
+  private readonly linkUrl: string;
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+    private readonly emailService: EmailService,
+    private readonly cryptoService: CryptoService,
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {
+    this.linkUrl =
+      this.configService.get<string>('MAGIC_LINK_URL') ||
+      'http://localhost:3000/magic-link';
+  }
+
+  // Does not tell the caller whether the email has an account
+  async send(email: string, binding: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email.toLowerCase());
+    if (
+      !user ||
+      user.status === UserStatus.Inactive ||
+      user.status === UserStatus.Deleted ||
+      user.status === UserStatus.Blocked
+    ) {
+      return;
+    }
+
+    const jti = randomUUID();
+    const token = this.jwtService.sign(
+      {
+        purpose: MAGIC_LINK_PURPOSE,
+        sub: user.id,
+        jti,
+        tokenVersion: user.tokenVersion ?? 0,
+        // Only a hash, the link must not be enough to forge the cookie
+        binding: this.cryptoService.hashToken(binding),
+      },
+      { audience: MAGIC_LINK_PURPOSE, expiresIn: MAGIC_LINK_TTL },
+    );
+    await this.cacheManager.set(
+      `magic-link:${jti}`,
+      user.id,
+      MAGIC_LINK_TTL * 1000,
+    );
+
+    const link = new URL(this.linkUrl);
+    link.searchParams.set('token', token);
+    await this.emailService.sendMagicLinkEmail(user.email, link.toString());
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'send-magic-link',
+        userId: user.id,
+      }),
+    );
+  }
+
+  async consume(token: string, binding: string | null): Promise<User> {
+    let payload: MagicLinkPayload;
+    try {
+      payload = this.jwtService.verify<MagicLinkPayload>(token, {
+        audience: MAGIC_LINK_PURPOSE,
+      });
+    } catch (error) {
+      throw new UnauthorizedException(
+        'The sign-in link is invalid or has expired.',
+      );
+    }
+    if (
+      payload.purpose !== MAGIC_LINK_PURPOSE ||
+      !payload.sub ||
+      !payload.jti
+    ) {
+      throw new UnauthorizedException(
+        'The sign-in link is invalid or has expired.',
+      );
+    }
+
+    // Checked before the link is used up, so opening it in another browser does not waste it
+    if (!binding || this.cryptoService.hashToken(binding) !== payload.binding) {
+      throw new UnauthorizedException(
+        'Open the sign-in link in the browser you requested it from.',
+      );
+    }
+
+    const key = `magic-link:${payload.jti}`;
+    const userId = await this.cacheManager.get<string>(key);
+    await this.cacheManager.del(key);
+    if (userId !== payload.sub) {
+      throw new UnauthorizedException(
+        'The sign-in link is invalid or has expired.',
+      );
+    }
+
+    // A password change or a revoke-all in the meantime cancels the link
+    const user = await this.usersService.findOneById(userId);
+    if (!user || (user.tokenVersion ?? 0) !== payload.tokenVersion) {
+      throw new UnauthorizedException(
+        'The sign-in link is invalid or has expired.',
+      );
+    }
+    return user;
+  }
+}
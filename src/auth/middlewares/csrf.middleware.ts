@@ -0,0 +1,14 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { AuthCookiesService } from '../auth-cookies.service';
+
+// Requests authenticated with cookies must echo the CSRF cookie in a header to change anything
+@Injectable()
+export class CsrfMiddleware implements NestMiddleware {
+  constructor(private readonly authCookiesService: AuthCookiesService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    this.authCookiesService.verifyCsrf(req);
+    next();
+  }
+}
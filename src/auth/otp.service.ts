@@ -0,0 +1,108 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UsersService } from '../users/users.service';
+import { CryptoService } from './crypto.service';
+import { OtpPurpose } from './enums';
+
+const OTP_FIELDS = {
+  [OtpPurpose.TwoFactor]: {
+    code: 'twoFactorAuthToken',
+    expiry: 'twoFactorAuthTokenExpiry',
+    attempts: 'twoFactorAuthAttempts',
+  },
+  [OtpPurpose.Email]: {
+    code: 'verifyEmailToken',
+    expiry: 'verifyEmailExpires',
+    attempts: 'verifyEmailAttempts',
+  },
+  [OtpPurpose.Phone]: {
+    code: 'verifyPhoneToken',
+    expiry: 'verifyPhoneExpires',
+    attempts: 'verifyPhoneAttempts',
+  },
+} as const;
+
+// Issues and checks the 6-digit codes sent by email or SMS. Codes are single use and burnt after too many wrong guesses
+@Injectable()
+export class OtpService {
+  private readonly logger = new Logger(OtpService.name);
+  private readonly maxAttempts: number;
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly cryptoService: CryptoService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxAttempts =
+      Number(this.configService.get<string>('OTP_MAX_ATTEMPTS')) || 5;
+  }
+
+  // Replaces any earlier code for the same purpose, returns the code to send
+  async issue(
+    userId: string,
+    purpose: OtpPurpose,
+    validFor: number, // milliseconds
+  ): Promise<string> {
+    const fields = OTP_FIELDS[purpose];
+    const [otp, hashedOtp] =
+      await this.cryptoService.generateAndHashOtp6Figures();
+
+    await this.usersService.update(userId, {
+      [fields.code]: hashedOtp,
+      [fields.expiry]: new Date(Date.now() + validFor),
+      [fields.attempts]: 0,
+    });
+    return otp;
+  }
+
+  async verify(
+    userId: string,
+    purpose: OtpPurpose,
+    otp: string,
+  ): Promise<boolean> {
+    const fields = OTP_FIELDS[purpose];
+
+    // The attempt is counted before the code is compared, so parallel guesses cannot get past the limit
+    const user = await this.usersService.countOtpAttempt(
+      userId,
+      fields.attempts,
+    );
+    if (!user?.[fields.code]) {
+      return false;
+    }
+
+    if (user[fields.attempts] > this.maxAttempts) {
+      return await this.burn(userId, purpose);
+    }
+    if (!user[fields.expiry] || new Date() > user[fields.expiry]) {
+      return false;
+    }
+
+    if (await this.cryptoService.validateOtp(otp, user[fields.code])) {
+      await this.clear(userId, purpose);
+      return true;
+    }
+    if (user[fields.attempts] >= this.maxAttempts) {
+      return await this.burn(userId, purpose);
+    }
+    return false;
+  }
+
+  private async burn(userId: string, purpose: OtpPurpose): Promise<never> {
+    await this.clear(userId, purpose);
+    this.logger.warn(JSON.stringify({ action: 'otp-burnt', userId, purpose }));
+    throw new HttpException(
+      'Too many incorrect codes. Please request a new one.',
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  private async clear(userId: string, purpose: OtpPurpose): Promise<void> {
+    const fields = OTP_FIELDS[purpose];
+    await this.usersService.update(userId, {
+      [fields.code]: null,
+      [fields.expiry]: null,
+      [fields.attempts]: 0,
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHistory } from './entities/password-history.entity';
+import { CryptoService } from './crypto.service';
+import { PasswordPolicyException } from '../common/exceptions/password-policy.exception';
+
+describe('PasswordPolicyService', () => {
+  let history: PasswordHistory[];
+  let cryptoService: CryptoService;
+  let service: PasswordPolicyService;
+
+  beforeEach(async () => {
+    history = [];
+    const repository = {
+      create: (entity: Partial<PasswordHistory>) => entity,
+      save: async (entity: PasswordHistory) => {
+        history.unshift({ ...entity, createdAt: new Date() });
+        return entity;
+      },
+      find: async ({ skip = 0, take }: { skip?: number; take?: number }) =>
+        history.slice(skip, take === undefined ? undefined : skip + take),
+      remove: async (entities: PasswordHistory[]) => {
+        history = history.filter((entry) => !entities.includes(entry));
+      },
+    };
+    const settings: Record<string, string> = {
+      PASSWORD_HISTORY_SIZE: '3',
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        CryptoService,
+        { provide: getRepositoryToken(PasswordHistory), useValue: repository },
+        { provide: ConfigService, useValue: { get: (key) => settings[key] } },
+      ],
+    }).compile();
+    cryptoService = module.get(CryptoService);
+    service = module.get(PasswordPolicyService);
+  });
+
+  async function violationsOf(
+    password: string,
+    user?: { id: string; password: string },
+  ): Promise<string[]> {
+    try {
+      await service.assertValid(password, user);
+      return [];
+    } catch (error) {
+      expect(error).toBeInstanceOf(PasswordPolicyException);
+      return error.getResponse().violations.map(({ code }) => code);
+    }
+  }
+
+  it('accepts a password that follows every rule', async () => {
+    expect(await violationsOf('Correct-Horse-7')).toEqual([]);
+  });
+
+  it('lists every rule a password breaks', async () => {
+    expect(await violationsOf('abc')).toEqual([
+      'too_short',
+      'missing_uppercase',
+      'missing_number',
+      'missing_symbol',
+    ]);
+  });
+
+  it('rejects passwords from the bundled breached list', async () => {
+    expect(await violationsOf('P@ssw0rd!')).toEqual(['breached']);
+  });
+
+  it('rejects the current and recent passwords but not older ones', async () => {
+    const passwords = ['Old-Passw0rd-1', 'Old-Passw0rd-2', 'Old-Passw0rd-3'];
+    const hashes = await Promise.all(
+      passwords.map((password) => cryptoService.hashPassword(password)),
+    );
+    for (const hash of hashes.slice(0, 2)) {
+      await service.remember('user-1', hash);
+    }
+    const user = { id: 'user-1', password: hashes[2] };
+
+    // Only the two before the current one are kept with a history size of 3
+    expect(history).toHaveLength(2);
+    expect(await violationsOf('Old-Passw0rd-3', user)).toEqual(['reused']);
+    expect(await violationsOf('Old-Passw0rd-1', user)).toEqual(['reused']);
+
+    await service.remember('user-1', hashes[2]);
+    expect(history).toHaveLength(2);
+    expect(await violationsOf('Old-Passw0rd-1', user)).toEqual([]);
+  });
+});
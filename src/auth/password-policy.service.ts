@@ -0,0 +1,180 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { PasswordHistory } from './entities/password-history.entity';
+import { CryptoService } from './crypto.service';
+import {
+  PasswordPolicyException,
+  PasswordPolicyViolation,
+} from '../common/exceptions/password-policy.exception';
+
+// The one place password rules live, used wherever a user picks a new password
+@Injectable()
+export class PasswordPolicyService {
+  private readonly logger = new Logger(PasswordPolicyService.name);
+  private readonly minLength: number;
+  private readonly historySize: number;
+  private readonly characterClasses: {
+    code: string;
+    message: string;
+    pattern: RegExp;
+  }[];
+  private readonly breachedPasswords: Set<string>;
+
+  constructor(
+    @InjectRepository(PasswordHistory)
+    private readonly passwordHistoryRepository: Repository<PasswordHistory>,
+    private readonly cryptoService: CryptoService,
+    private readonly configService: ConfigService,
+  ) {
+    this.minLength =
+      Number(this.configService.get<string>('PASSWORD_MIN_LENGTH')) || 8;
+    this.historySize = Number(
+      this.configService.get<string>('PASSWORD_HISTORY_SIZE') ?? 5,
+    );
+
+    // Each class is required unless turned off with 'false'
+    this.characterClasses = [
+      {
+        code: 'missing_lowercase',
+        message: 'Use at least one lowercase letter.',
+        pattern: /\p{Ll}/u,
+        setting: 'PASSWORD_REQUIRE_LOWERCASE',
+      },
+      {
+        code: 'missing_uppercase',
+        message: 'Use at least one uppercase letter.',
+        pattern: /\p{Lu}/u,
+        setting: 'PASSWORD_REQUIRE_UPPERCASE',
+      },
+      {
+        code: 'missing_number',
+        message: 'Use at least one number.',
+        pattern: /\p{N}/u,
+        setting: 'PASSWORD_REQUIRE_NUMBER',
+      },
+      {
+        code: 'missing_symbol',
+        message: 'Use at least one symbol.',
+        pattern: /[^\p{L}\p{N}]/u,
+        setting: 'PASSWORD_REQUIRE_SYMBOL',
+      },
+    ].filter(({ setting }) => this.configService.get(setting) !== 'false');
+
+    this.breachedPasswords = this.loadBreachedPasswords(
+      this.configService.get<string>('BREACHED_PASSWORDS_FILE') ??
+        join(__dirname, 'data', 'breached-passwords.txt'),
+    );
+  }
+
+  // Pass the user when they already have an account, so earlier passwords are checked too
+  async assertValid(
+    password: string,
+    user?: { id: string; password?: string | null },
+  ): Promise<void> {
+    const violations: PasswordPolicyViolation[] = [];
+
+    if (password.length < this.minLength) {
+      violations.push({
+        code: 'too_short',
+        message: `Use at least ${this.minLength} characters.`,
+      });
+    }
+    for (const { code, message, pattern } of this.characterClasses) {
+      if (!pattern.test(password)) {
+        violations.push({ code, message });
+      }
+    }
+    if (this.breachedPasswords.has(password.toLowerCase())) {
+      violations.push({
+        code: 'breached',
+        message:
+          'This password has appeared in a data breach. Please choose another one.',
+      });
+    }
+    if (user && (await this.isReused(user, password))) {
+      violations.push({
+        code: 'reused',
+        message: `Do not reuse any of your last ${this.historySize} passwords.`,
+      });
+    }
+
+    if (violations.length) {
+      throw new PasswordPolicyException(violations);
+    }
+  }
+
+  // Called with the hash being replaced whenever a user's password changes
+  async remember(userId: string, passwordHash: string | null): Promise<void> {
+    if (!passwordHash || this.historySize < 2) {
+      return;
+    }
+
+    await this.passwordHistoryRepository.save(
+      this.passwordHistoryRepository.create({
+        user: { id: userId },
+        passwordHash,
+      }),
+    );
+
+    // The current password counts as one of the last N, so N - 1 earlier ones are kept
+    const stale = await this.passwordHistoryRepository.find({
+      where: { user: { id: userId } },
+      order: { createdAt: 'DESC' },
+      skip: this.historySize - 1,
+    });
+    if (stale.length) {
+      await this.passwordHistoryRepository.remove(stale);
+    }
+  }
+
+  private async isReused(
+    user: { id: string; password?: string | null },
+    password: string,
+  ): Promise<boolean> {
+    if (this.historySize < 1) {
+      return false;
+    }
+
+    const history =
+      this.historySize > 1
+        ? await this.passwordHistoryRepository.find({
+            where: { user: { id: user.id } },
+            order: { createdAt: 'DESC' },
+            take: this.historySize - 1,
+          })
+        : [];
+    const hashes = [user.password, ...history.map((h) => h.passwordHash)];
+
+    for (const hash of hashes) {
+      if (hash && (await this.cryptoService.validatePassword(password, hash))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private loadBreachedPasswords(path: string): Set<string> {
+    try {
+      return new Set(
+        readFileSync(path, 'utf8')
+          .split('\n')
+          .map((line) => line.trim().toLowerCase())
+          .filter((line) => line && !line.startsWith('#')),
+      );
+    } catch (error) {
+      // Registration keeps working, only this one check is skipped
+      this.logger.error(
+        JSON.stringify({
+          action: 'load-breached-passwords',
+          path,
+          error: error.message,
+        }),
+      );
+      return new Set();
+    }
+  }
+}
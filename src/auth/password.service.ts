@@ -10,16 +10,31 @@ import { ChangePasswordDto } from './dtos/change-password.dto';
 import { AuthenticatedResponseDto } from './dtos/auth-response.dto';
 import { TokenService } from './token.service';
 import { CryptoService } from './crypto.service';
+import { ClientInfo } from './decorators/current-client.decorator';
+import { PasswordPolicyService } from './password-policy.service';
+import { TrustedDevicesService } from './trusted-devices.service';
+import { ConfigService } from '@nestjs/config';
+import { EmailService } from 'src/notifications/email.service';
+import { UserStatus } from 'src/users/entities/user.entity';
 
 @Injectable()
 export class PasswordService {
   private readonly logger = new Logger(PasswordService.name);
+  private readonly resetUrl: string;
 
   constructor(
     private readonly usersService: UsersService,
     private readonly tokenService: TokenService,
     private readonly cryptoService: CryptoService,
-  ) {}
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+    private readonly trustedDevicesService: TrustedDevicesService,
+  ) {
+    this.resetUrl =
+      this.configService.get<string>('PASSWORD_RESET_URL') ||
+      'http://localhost:3000/reset-password';
+  }
 
   async changePassword(
     userId: string,
@@ -41,6 +56,9 @@ export class PasswordService {
       throw new BadRequestException('Old password is incorrect');
     }
 
+    await this.passwordPolicyService.assertValid(newPassword, user);
+    await this.passwordPolicyService.remember(user.id, user.password);
+
     // Hash the new password
     user.password = await this.cryptoService.hashPassword(newPassword);
 
@@ -58,25 +76,45 @@ export class PasswordService {
     );
   }
 
+  // Answers the same whether or not the email has an account
   async forgotPassword(email: string): Promise<void> {
     // Find the user by their email
-    const user = await this.usersService.findByEmail(email);
-    if (!user) {
-      throw new NotFoundException(
-        'User with this email address was not found.',
-      );
+    const user = await this.usersService.findByEmail(email.toLowerCase());
+    if (
+      !user ||
+      user.status === UserStatus.Inactive ||
+      user.status === UserStatus.Deleted ||
+      user.status === UserStatus.Blocked
+    ) {
+      return;
     }
 
-    // Generate a password reset token and expiry time
-    const resetToken = crypto.randomBytes(20).toString('hex');
+    // Only a hash of the token is stored, the link in the email is the only copy
+    const resetToken = crypto.randomBytes(32).toString('base64url');
     const resetTokenExpiry = new Date(Date.now() + 3600000); // 1 hour from now
 
-    // Update the user with the reset token and expiry time
+    // Update the user with the reset token hash and expiry time
     await this.usersService.updateCurrentUser(user.id, {
-      passwordResetCode: resetToken,
+      passwordResetCode: this.cryptoService.hashToken(resetToken),
       passwordResetExpires: resetTokenExpiry,
     });
 
+    const link = new URL(this.resetUrl);
+    link.searchParams.set('token', resetToken);
+
+    // Not awaited, a slow or failing mail server must not show which emails have accounts
+    this.emailService
+      .sendPasswordResetEmail(user.email, link.toString())
+      .catch((error) =>
+        this.logger.error(
+          JSON.stringify({
+            action: 'forgot-password-email-failed',
+            userId: user.id,
+            error: error.message,
+          }),
+        ),
+      );
+
     this.logger.log(
       JSON.stringify({
         action: 'forgot-password',
@@ -84,16 +122,16 @@ export class PasswordService {
         email: user.email,
       }),
     );
-
-    // Note: Email service for sending forgot password email should be implemented here
   }
 
   async resetPassword(
     resetToken: string,
     newPassword: string,
+    client: ClientInfo,
   ): Promise<AuthenticatedResponseDto> {
-    // Find the user by their password reset token
-    const user = await this.usersService.findByResetToken(resetToken);
+    // Find the user by the hash of their password reset token
+    const resetTokenHash = this.cryptoService.hashToken(resetToken);
+    const user = await this.usersService.findByResetToken(resetTokenHash);
     // Validate the reset token and its expiry time
     if (
       !user ||
@@ -105,19 +143,37 @@ export class PasswordService {
       );
     }
 
-    // Hash the new password using the CryptoService
-    user.password = await this.cryptoService.hashPassword(newPassword);
+    await this.passwordPolicyService.assertValid(newPassword, user);
 
-    // Clear the reset token and expiry time from the user's account
-    user.passwordResetCode = null;
-    user.passwordResetExpires = null;
+    // Clearing the token only succeeds for the first request, so each link works once
+    const claimed = await this.usersService.claimResetToken(
+      user.id,
+      resetTokenHash,
+    );
+    if (!claimed) {
+      throw new BadRequestException(
+        'Password reset token is invalid or has expired.',
+      );
+    }
+    await this.passwordPolicyService.remember(user.id, user.password);
 
-    // Update the user's password and reset token fields
-    await this.usersService.updateCurrentUser(user.id, user);
+    // Hash the new password, and make every token issued before the reset invalid
+    user.password = await this.cryptoService.hashPassword(newPassword);
+    user.tokenVersion = (user.tokenVersion || 0) + 1;
+    await this.usersService.update(user.id, {
+      password: user.password,
+      tokenVersion: user.tokenVersion,
+    });
 
-    // Generate new access and refresh tokens for the user
-    const accessToken = await this.tokenService.createAccessToken(user);
-    const refreshToken = await this.tokenService.createRefreshToken(user);
+    // Whoever knew the old password is signed out everywhere, and the devices they trusted need 2FA again
+    await this.tokenService.revokeAllSessions(user.id);
+    await this.trustedDevicesService.revokeAll(user.id);
+
+    // Start a new session with fresh access and refresh tokens for the user
+    const { accessToken, refreshToken } = await this.tokenService.startSession(
+      user,
+      client,
+    );
 
     this.logger.log(
       JSON.stringify({
@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+import {
+  CreatePersonalAccessTokenDecorator,
+  GetPersonalAccessTokensDecorator,
+  RevokePersonalAccessTokenDecorator,
+} from './decorators';
+import {
+  CreatePersonalAccessTokenDto,
+  CreatedPersonalAccessTokenDto,
+  PersonalAccessTokenDto,
+} from './dtos/personal-access-token.dto';
+import { CurrentUser } from 'src/users/decorators/current-user.decorator';
+
+@ApiTags('users')
+@Controller('users/me/tokens')
+export class PersonalAccessTokensController {
+  constructor(
+    private readonly personalAccessTokenService: PersonalAccessTokenService,
+  ) {}
+
+  @CreatePersonalAccessTokenDecorator()
+  @Post()
+  async createToken(
+    @CurrentUser() user: any,
+    @Body() body: CreatePersonalAccessTokenDto,
+  ): Promise<CreatedPersonalAccessTokenDto> {
+    return await this.personalAccessTokenService.create(user.id, body);
+  }
+
+  @GetPersonalAccessTokensDecorator()
+  @Get()
+  async getTokens(@CurrentUser() user: any): Promise<PersonalAccessTokenDto[]> {
+    return await this.personalAccessTokenService.findAll(user.id);
+  }
+
+  @RevokePersonalAccessTokenDecorator()
+  @Delete(':tokenId')
+  async revokeToken(
+    @CurrentUser() user: any,
+    @Param('tokenId', ParseUUIDPipe) tokenId: string,
+  ): Promise<{ message: string }> {
+    const revoked = await this.personalAccessTokenService.revoke(
+      user.id,
+      tokenId,
+    );
+    if (!revoked) {
+      throw new NotFoundException('API key not found.');
+    }
+    return { message: 'API key has been revoked.' };
+  }
+}
@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { RecoveryCode } from './entities/recovery-code.entity';
+import { CryptoService } from './crypto.service';
+import { EmailService } from 'src/notifications/email.service';
+
+const RECOVERY_CODE_COUNT = 10;
+
+@Injectable()
+export class RecoveryCodesService {
+  private readonly logger = new Logger(RecoveryCodesService.name);
+
+  constructor(
+    @InjectRepository(RecoveryCode)
+    private readonly recoveryCodeRepository: Repository<RecoveryCode>,
+    private readonly cryptoService: CryptoService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  // Replaces any codes the user had, the old ones stop working
+  async generate(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+
+    await this.recoveryCodeRepository.delete({ user: { id: userId } });
+    await this.recoveryCodeRepository.save(
+      codes.map((code) =>
+        this.recoveryCodeRepository.create({
+          user: { id: userId },
+          codeHash: this.cryptoService.hashToken(this.normalize(code)),
+        }),
+      ),
+    );
+
+    this.logger.log(
+      JSON.stringify({ action: 'generate-recovery-codes', userId }),
+    );
+    return codes;
+  }
+
+  async removeAll(userId: string): Promise<void> {
+    await this.recoveryCodeRepository.delete({ user: { id: userId } });
+  }
+
+  // 2FA codes are six digits, anything else entered at the 2FA step is taken as a recovery code
+  isRecoveryCode(code: string): boolean {
+    return /^[0-9a-f]{10}$/.test(this.normalize(code));
+  }
+
+  async consume(
+    user: { id: string; email: string },
+    code: string,
+  ): Promise<boolean> {
+    // Marking the code used only succeeds for the first caller
+    const { affected } = await this.recoveryCodeRepository.update(
+      {
+        user: { id: user.id },
+        codeHash: this.cryptoService.hashToken(this.normalize(code)),
+        usedAt: IsNull(),
+      },
+      { usedAt: new Date() },
+    );
+    if (!affected) {
+      return false;
+    }
+
+    const remaining = await this.recoveryCodeRepository.countBy({
+      user: { id: user.id },
+      usedAt: IsNull(),
+    });
+    this.logger.warn(
+      JSON.stringify({
+        action: 'use-recovery-code',
+        userId: user.id,
+        remaining,
+      }),
+    );
+
+    // The user should hear about it if someone else got hold of their codes, but the login goes ahead either way
+    try {
+      await this.emailService.sendRecoveryCodeUsedEmail(user.email, remaining);
+    } catch (error) {
+      this.logger.error(
+        JSON.stringify({
+          action: 'recovery-code-email-failed',
+          userId: user.id,
+        }),
+      );
+    }
+    return true;
+  }
+
+  private normalize(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  Res,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { Request, Response } from 'express';
+import { SocialLoginService } from './social-login.service';
+import { AuthService } from './auth.service';
+import { AuthCookiesService } from './auth-cookies.service';
+import {
+  CompleteSocialLoginDecorator,
+  GetSocialProvidersDecorator,
+  StartSocialLoginDecorator,
+} from './decorators';
+import {
+  SocialAuthorizationDto,
+  SocialLoginCallbackDto,
+  SocialProvidersDto,
+} from './dtos/social-login.dto';
+import {
+  ClientInfo,
+  CurrentClient,
+} from './decorators/current-client.decorator';
+import { AuthCookiesInterceptor } from './interceptors/auth-cookies.interceptor';
+
+@ApiTags('auth')
+@UseInterceptors(AuthCookiesInterceptor)
+@Controller('auth/social')
+export class SocialLoginController {
+  constructor(
+    private readonly socialLoginService: SocialLoginService,
+    private readonly authService: AuthService,
+    private readonly authCookiesService: AuthCookiesService,
+  ) {}
+
+  @GetSocialProvidersDecorator()
+  @Get()
+  getProviders(): SocialProvidersDto {
+    return { providers: this.socialLoginService.listProviders() };
+  }
+
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @StartSocialLoginDecorator()
+  @Post(':provider/authorize')
+  async startSocialLogin(
+    @Param('provider') provider: string,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<SocialAuthorizationDto> {
+    return {
+      authorizationUrl: await this.socialLoginService.startAuthorization(
+        provider,
+        this.authCookiesService.setSocialLoginBinding(response),
+      ),
+    };
+  }
+
+  @CompleteSocialLoginDecorator()
+  @Post(':provider/callback')
+  async completeSocialLogin(
+    @Param('provider') provider: string,
+    @Body() body: SocialLoginCallbackDto,
+    @Req() request: Request,
+    @CurrentClient() client: ClientInfo,
+  ) {
+    const user = await this.socialLoginService.completeAuthorization(
+      provider,
+      body.code,
+      body.state,
+      this.authCookiesService.extractSocialLoginBinding(request),
+    );
+    return await this.authService.loginWithSocialAccount(
+      user,
+      client,
+      provider,
+    );
+  }
+}
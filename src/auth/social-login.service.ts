@@ -0,0 +1,231 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { createHash, randomBytes } from 'crypto';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { LinkedIdentity } from './entities/linked-identity.entity';
+import { CryptoService } from './crypto.service';
+import { SocialProviderRegistry } from './social-providers/social-provider.registry';
+import { SocialProfile } from './social-providers/social-provider';
+import { OidcSocialProvider } from './social-providers/oidc-social.provider';
+
+const AUTHORIZATION_TTL = 10 * 60; // seconds
+
+type PendingAuthorization = {
+  provider: string;
+  codeVerifier: string;
+  binding: string;
+};
+
+// Sign in through another identity provider, with the authorization code flow or an ID token the client already has
+@Injectable()
+export class SocialLoginService {
+  private readonly logger = new Logger(SocialLoginService.name);
+  private readonly redirectUrl: string;
+
+  constructor(
+    @InjectRepository(LinkedIdentity)
+    private readonly linkedIdentityRepository: Repository<LinkedIdentity>,
+    private readonly socialProviderRegistry: SocialProviderRegistry,
+    private readonly usersService: UsersService,
+    private readonly cryptoService: CryptoService,
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+  ) {
+    // The provider sends the user back to this page with /<provider> appended, it passes code and state on to the callback
+    this.redirectUrl =
+      this.configService.get<string>('SOCIAL_LOGIN_REDIRECT_URL') ||
+      'http://localhost:3000/auth/callback';
+  }
+
+  listProviders(): string[] {
+    return this.socialProviderRegistry.list();
+  }
+
+  async startAuthorization(
+    providerName: string,
+    binding: string,
+  ): Promise<string> {
+    const provider = this.socialProviderRegistry.get(providerName);
+    if (!provider.supportsAuthorizationCode) {
+      throw new BadRequestException(
+        `Sign in with ${providerName} needs a client secret for this flow.`,
+      );
+    }
+
+    const state = randomBytes(32).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const pending: PendingAuthorization = {
+      provider: provider.name,
+      codeVerifier,
+      // Only a hash, like magic links
+      binding: this.cryptoService.hashToken(binding),
+    };
+    await this.cacheManager.set(
+      this.stateKey(state),
+      pending,
+      AUTHORIZATION_TTL * 1000,
+    );
+
+    return await provider.getAuthorizationUrl({
+      state,
+      codeChallenge: createHash('sha256')
+        .update(codeVerifier)
+        .digest('base64url'),
+      redirectUri: this.getRedirectUri(provider.name),
+    });
+  }
+
+  async completeAuthorization(
+    providerName: string,
+    code: string,
+    state: string,
+    binding: string | null,
+  ): Promise<User> {
+    const key = this.stateKey(state);
+    const pending = await this.cacheManager.get<PendingAuthorization>(key);
+    await this.cacheManager.del(key);
+
+    // The state is single use and only works in the browser that started the sign in
+    if (
+      !pending ||
+      pending.provider !== providerName ||
+      !binding ||
+      !this.cryptoService.compareTokenHash(binding, pending.binding)
+    ) {
+      throw new UnauthorizedException(
+        'The sign in has expired or was started in another browser. Please try again.',
+      );
+    }
+
+    const provider = this.socialProviderRegistry.get(providerName);
+    let profile: SocialProfile;
+    try {
+      profile = await provider.fetchProfile(
+        code,
+        pending.codeVerifier,
+        this.getRedirectUri(provider.name),
+      );
+    } catch (error) {
+      this.logger.error(
+        JSON.stringify({
+          action: 'social-login-failed',
+          provider: providerName,
+          error: error.message,
+        }),
+      );
+      throw new UnauthorizedException(
+        `Could not sign in with ${providerName}.`,
+      );
+    }
+
+    return await this.findOrCreateUser(providerName, profile);
+  }
+
+  async loginWithIdToken(providerName: string, idToken: string): Promise<User> {
+    const provider = this.socialProviderRegistry.get(providerName);
+    if (!(provider instanceof OidcSocialProvider)) {
+      throw new BadRequestException(
+        `Sign in with ${providerName} does not use ID tokens.`,
+      );
+    }
+
+    let profile: SocialProfile;
+    try {
+      profile = await provider.verifyIdToken(idToken);
+    } catch (error) {
+      throw new UnauthorizedException(`Invalid ${providerName} ID token.`);
+    }
+    return await this.findOrCreateUser(providerName, profile);
+  }
+
+  private async findOrCreateUser(
+    provider: string,
+    profile: SocialProfile,
+  ): Promise<User> {
+    const identity = await this.linkedIdentityRepository.findOne({
+      where: { provider, subject: profile.subject },
+      relations: { user: true },
+    });
+    if (identity) {
+      await this.linkedIdentityRepository.update(identity.id, {
+        email: profile.email,
+        profile: profile.raw,
+        lastUsedAt: new Date(),
+      });
+      return identity.user;
+    }
+
+    // Google users from before linked identities only have googleId, they get one on their next sign in
+    const legacyUser =
+      provider === 'google'
+        ? await this.usersService.findByGoogleId(profile.subject)
+        : null;
+    if (legacyUser) {
+      await this.link(legacyUser, provider, profile);
+      return legacyUser;
+    }
+
+    // Anyone can add an address they do not own at some providers, claiming it would lock out its owner
+    if (!profile.email || !profile.emailVerified) {
+      throw new UnauthorizedException(
+        `${provider} did not share a verified email address for this account.`,
+      );
+    }
+    if (await this.usersService.findByEmail(profile.email)) {
+      throw new UnprocessableEntityException(
+        'An account with this email address already exists through a different method.',
+      );
+    }
+
+    const user = await this.usersService.createFromSocialProfile({
+      email: profile.email,
+      firstName: profile.firstName,
+      lastName: profile.lastName,
+      isEmailVerified: profile.emailVerified,
+      provider,
+    });
+    await this.link(user, provider, profile);
+
+    this.logger.log(
+      JSON.stringify({ action: 'social-register', userId: user.id, provider }),
+    );
+    return user;
+  }
+
+  private async link(
+    user: User,
+    provider: string,
+    profile: SocialProfile,
+  ): Promise<void> {
+    await this.linkedIdentityRepository.save(
+      this.linkedIdentityRepository.create({
+        user,
+        provider,
+        subject: profile.subject,
+        email: profile.email,
+        profile: profile.raw,
+        lastUsedAt: new Date(),
+      }),
+    );
+  }
+
+  private getRedirectUri(provider: string): string {
+    return `${this.redirectUrl.replace(/\/$/, '')}/${provider}`;
+  }
+
+  private stateKey(state: string): string {
+    return `social-login:${state}`;
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  AuthorizationRequest,
+  SocialProfile,
+  SocialProvider,
+} from './social-provider';
+
+// GitHub only speaks plain OAuth 2.0, the profile and emails come from its REST API
+export class GitHubSocialProvider extends SocialProvider {
+  async getAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    return this.buildAuthorizationUrl(this.config.authorizationUrl, request);
+  }
+
+  async fetchProfile(
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+  ): Promise<SocialProfile> {
+    const { accessToken } = await this.exchangeCode(
+      this.config.tokenUrl,
+      code,
+      codeVerifier,
+      redirectUri,
+    );
+    const user = await this.getJson(this.config.userInfoUrl, accessToken);
+
+    // The public profile email can be empty or unverified, the primary one is what the user signs in with
+    const emails: { email: string; primary: boolean; verified: boolean }[] =
+      await this.getJson(`${this.config.userInfoUrl}/emails`, accessToken);
+    const primary = emails?.find((email) => email.primary) ?? null;
+
+    const [firstName, ...lastName] = (user.name ?? '').split(' ');
+    return {
+      subject: String(user.id),
+      email: primary?.email.toLowerCase() ?? null,
+      emailVerified: !!primary?.verified,
+      firstName: firstName || null,
+      lastName: lastName.join(' ') || null,
+      raw: user,
+    };
+  }
+}
@@ -0,0 +1,242 @@
+import { JwtService } from '@nestjs/jwt';
+import { HttpService } from '@nestjs/axios';
+import { generateKeyPairSync } from 'crypto';
+import { of } from 'rxjs';
+import { OidcSocialProvider } from './oidc-social.provider';
+
+const ISSUER = 'https://id.example.com';
+
+describe('OidcSocialProvider', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const jwtService = new JwtService({ secret: 'access-token-secret' });
+  let httpService: { get: jest.Mock; post: jest.Mock };
+  let provider: OidcSocialProvider;
+
+  beforeEach(() => {
+    const responses: Record<string, any> = {
+      [`${ISSUER}/.well-known/openid-configuration`]: {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        userinfo_endpoint: `${ISSUER}/userinfo`,
+        jwks_uri: `${ISSUER}/jwks`,
+      },
+      [`${ISSUER}/jwks`]: {
+        keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }],
+      },
+      [`${ISSUER}/userinfo`]: {
+        sub: 'user-123',
+        email: 'Jane@Example.com',
+        email_verified: true,
+        given_name: 'Jane',
+        family_name: 'Doe',
+      },
+    };
+    httpService = {
+      get: jest.fn((url: string) => of({ data: responses[url] })),
+      post: jest.fn(() => of({ data: { access_token: 'provider-token' } })),
+    };
+    provider = new OidcSocialProvider(
+      {
+        name: 'example',
+        clientId: 'client-1',
+        clientSecret: 'secret-1',
+        issuer: ISSUER,
+        scopes: ['openid', 'email', 'profile'],
+      },
+      httpService as unknown as HttpService,
+      jwtService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds the authorization URL from the discovery document', async () => {
+    const url = new URL(
+      await provider.getAuthorizationUrl({
+        state: 'state-1',
+        codeChallenge: 'challenge-1',
+        redirectUri: 'https://app.example.com/auth/callback/example',
+      }),
+    );
+
+    expect(url.origin + url.pathname).toEqual(`${ISSUER}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: 'client-1',
+      redirect_uri: 'https://app.example.com/auth/callback/example',
+      scope: 'openid email profile',
+      state: 'state-1',
+      code_challenge: 'challenge-1',
+      code_challenge_method: 'S256',
+    });
+  });
+
+  it('exchanges the code and reads the profile from userinfo', async () => {
+    const profile = await provider.fetchProfile(
+      'code-1',
+      'verifier-1',
+      'https://app.example.com/auth/callback/example',
+    );
+
+    const [tokenUrl, form] = httpService.post.mock.calls[0];
+    expect(tokenUrl).toEqual(`${ISSUER}/token`);
+    expect(form.get('code_verifier')).toEqual('verifier-1');
+    expect(form.get('client_secret')).toEqual('secret-1');
+    expect(profile).toMatchObject({
+      subject: 'user-123',
+      email: 'jane@example.com',
+      emailVerified: true,
+      firstName: 'Jane',
+      lastName: 'Doe',
+    });
+  });
+
+  it('verifies ID tokens against the published keys', async () => {
+    const sign = (audience: string) =>
+      jwtService.sign(
+        { sub: 'user-123', email: 'jane@example.com' },
+        {
+          secret: privateKey
+            .export({ type: 'pkcs8', format: 'pem' })
+            .toString(),
+          algorithm: 'RS256',
+          keyid: 'key-1',
+          issuer: ISSUER,
+          audience,
+          expiresIn: '5m',
+        },
+      );
+
+    await expect(
+      provider.verifyIdToken(sign('client-1')),
+    ).resolves.toMatchObject({ subject: 'user-123', emailVerified: false });
+    await expect(provider.verifyIdToken(sign('client-2'))).rejects.toThrow();
+  });
+
+  it('fetches the keys again for an unknown kid at most once a minute', async () => {
+    const sign = (keyid: string) =>
+      jwtService.sign(
+        { sub: 'user-123' },
+        {
+          secret: privateKey
+            .export({ type: 'pkcs8', format: 'pem' })
+            .toString(),
+          algorithm: 'RS256',
+          keyid,
+          issuer: ISSUER,
+          audience: 'client-1',
+          expiresIn: '5m',
+        },
+      );
+    const jwksRequests = () =>
+      httpService.get.mock.calls.filter(([url]) => url === `${ISSUER}/jwks`)
+        .length;
+
+    await provider.verifyIdToken(sign('key-1'));
+    await expect(provider.verifyIdToken(sign('key-2'))).rejects.toThrow(
+      'Unknown signing key',
+    );
+    expect(jwksRequests()).toEqual(1);
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 61 * 1000);
+    await expect(provider.verifyIdToken(sign('key-2'))).rejects.toThrow(
+      'Unknown signing key',
+    );
+    expect(jwksRequests()).toEqual(2);
+  });
+
+  describe('with a multi-tenant Microsoft issuer', () => {
+    const COMMON = 'https://login.microsoftonline.com/common/v2.0';
+    const TENANT = '9188040d-6c67-4c5b-b112-36a304b66dad';
+    const signIdToken = (claims: Record<string, any>, issuer: string) =>
+      jwtService.sign(claims, {
+        secret: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+        algorithm: 'RS256',
+        keyid: 'key-1',
+        issuer,
+        audience: 'client-1',
+        expiresIn: '5m',
+      });
+
+    beforeEach(() => {
+      // Discovery of the common endpoint names no tenant, and userinfo has no email verification claims
+      const responses: Record<string, any> = {
+        [`${COMMON}/.well-known/openid-configuration`]: {
+          issuer: 'https://login.microsoftonline.com/{tenantid}/v2.0',
+          authorization_endpoint: `${COMMON}/authorize`,
+          token_endpoint: `${COMMON}/token`,
+          userinfo_endpoint: 'https://graph.microsoft.com/oidc/userinfo',
+          jwks_uri: `${COMMON}/keys`,
+        },
+        [`${COMMON}/keys`]: {
+          keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }],
+        },
+        'https://graph.microsoft.com/oidc/userinfo': {
+          sub: 'user-123',
+          email: 'jane@example.com',
+        },
+      };
+      httpService.get.mockImplementation((url: string) =>
+        of({ data: responses[url] }),
+      );
+      provider = new OidcSocialProvider(
+        {
+          name: 'microsoft',
+          clientId: 'client-1',
+          clientSecret: 'secret-1',
+          issuer: COMMON,
+          scopes: ['openid', 'email', 'profile'],
+        },
+        httpService as unknown as HttpService,
+        jwtService,
+      );
+    });
+
+    it('reads the profile from the ID token of the code exchange', async () => {
+      const idToken = signIdToken(
+        {
+          sub: 'user-123',
+          tid: TENANT,
+          email: 'Jane@Example.com',
+          xms_edov: true,
+        },
+        `https://login.microsoftonline.com/${TENANT}/v2.0`,
+      );
+      httpService.post.mockReturnValue(
+        of({ data: { access_token: 'provider-token', id_token: idToken } }),
+      );
+
+      await expect(
+        provider.fetchProfile(
+          'code-1',
+          'verifier-1',
+          'https://app.example.com/auth/callback/microsoft',
+        ),
+      ).resolves.toMatchObject({
+        subject: 'user-123',
+        email: 'jane@example.com',
+        emailVerified: true,
+      });
+      expect(httpService.get).not.toHaveBeenCalledWith(
+        'https://graph.microsoft.com/oidc/userinfo',
+        expect.anything(),
+      );
+    });
+
+    it('refuses an ID token issued for another tenant than its tid', async () => {
+      const idToken = signIdToken(
+        { sub: 'user-123', tid: TENANT, email: 'jane@example.com' },
+        'https://login.microsoftonline.com/another-tenant/v2.0',
+      );
+
+      await expect(provider.verifyIdToken(idToken)).rejects.toThrow(
+        'Unexpected issuer',
+      );
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { HttpService } from '@nestjs/axios';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import {
+  AuthorizationRequest,
+  SocialProfile,
+  SocialProvider,
+  SocialProviderConfig,
+} from './social-provider';
+
+const DISCOVERY_CACHE_TTL = 60 * 60 * 1000; // milliseconds
+const JWKS_REFETCH_INTERVAL = 60 * 1000; // milliseconds
+
+type Discovery = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+  jwks_uri: string;
+};
+
+// Any OpenID Connect provider, the endpoints come from the issuer's discovery document
+export class OidcSocialProvider extends SocialProvider {
+  private discovery: Discovery | null = null;
+  private discoveredAt = 0;
+  private keys: (JsonWebKey & { kid?: string })[] = [];
+  private keysRequestedAt = 0;
+
+  constructor(
+    config: SocialProviderConfig,
+    httpService: HttpService,
+    private readonly jwtService: JwtService,
+  ) {
+    super(config, httpService);
+  }
+
+  async getAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const { authorization_endpoint } = await this.discover();
+    return this.buildAuthorizationUrl(authorization_endpoint, request);
+  }
+
+  async fetchProfile(
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+  ): Promise<SocialProfile> {
+    const { token_endpoint, userinfo_endpoint } = await this.discover();
+    const { accessToken, idToken } = await this.exchangeCode(
+      token_endpoint,
+      code,
+      codeVerifier,
+      redirectUri,
+    );
+
+    // The ID token carries claims userinfo may leave out, like Microsoft's xms_edov
+    if (idToken) {
+      return await this.verifyIdToken(idToken);
+    }
+    return this.toProfile(await this.getJson(userinfo_endpoint, accessToken));
+  }
+
+  // For ID tokens the client got on its own, like Google's sign-in button
+  async verifyIdToken(idToken: string): Promise<SocialProfile> {
+    const header = this.jwtService.decode(idToken, { complete: true })?.header;
+    const key = header?.kid ? await this.findKey(header.kid) : null;
+    if (!key) {
+      throw new Error('Unknown signing key');
+    }
+
+    const { issuer } = await this.discover();
+    const claims = this.jwtService.verify(idToken, {
+      secret: key,
+      algorithms: ['RS256'],
+      audience: this.config.clientId,
+    });
+
+    // Microsoft's multi-tenant endpoints publish the issuer with a {tenantid} placeholder, filled in from the token's tid
+    const expectedIssuer =
+      issuer.includes('{tenantid}') && typeof claims.tid === 'string'
+        ? issuer.replace('{tenantid}', claims.tid)
+        : issuer;
+    if (
+      ![expectedIssuer, ...(this.config.issuerAliases ?? [])].includes(
+        claims.iss,
+      )
+    ) {
+      throw new Error('Unexpected issuer');
+    }
+    return this.toProfile(claims);
+  }
+
+  private toProfile(claims: Record<string, any>): SocialProfile {
+    return {
+      subject: String(claims.sub),
+      email: claims.email?.toLowerCase() ?? null,
+      // Some providers send the boolean as a string, Microsoft leaves it out and only
+      // vouches for the address through its optional xms_edov claim
+      emailVerified:
+        String(claims.email_verified) === 'true' ||
+        String(claims.xms_edov) === 'true',
+      firstName: claims.given_name ?? null,
+      lastName: claims.family_name ?? null,
+      raw: claims,
+    };
+  }
+
+  private async discover(): Promise<Discovery> {
+    if (
+      !this.discovery ||
+      Date.now() - this.discoveredAt > DISCOVERY_CACHE_TTL
+    ) {
+      const { data } = await firstValueFrom(
+        this.httpService.get<Discovery>(
+          `${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+        ),
+      );
+      this.discovery = data;
+      this.discoveredAt = Date.now();
+    }
+    return this.discovery;
+  }
+
+  // Providers rotate their keys, an unknown kid fetches them again, but at most once a minute
+  private async findKey(kid: string): Promise<string | null> {
+    let key = this.keys.find((candidate) => candidate.kid === kid);
+    if (!key && Date.now() - this.keysRequestedAt > JWKS_REFETCH_INTERVAL) {
+      // Failed requests count too, or an outage would be retried on every login
+      this.keysRequestedAt = Date.now();
+      const { jwks_uri } = await this.discover();
+      const { data } = await firstValueFrom(this.httpService.get(jwks_uri));
+      this.keys = data?.keys ?? [];
+      key = this.keys.find((candidate) => candidate.kid === kid);
+    }
+    if (!key) {
+      return null;
+    }
+    return createPublicKey({ key, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+  }
+}
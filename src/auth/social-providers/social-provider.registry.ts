@@ -0,0 +1,100 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { JwtService } from '@nestjs/jwt';
+import { SocialProvider, SocialProviderConfig } from './social-provider';
+import { OidcSocialProvider } from './oidc-social.provider';
+import { GitHubSocialProvider } from './github-social.provider';
+
+type ProviderDefinition = Omit<
+  SocialProviderConfig,
+  'name' | 'clientId' | 'clientSecret'
+> & { protocol: 'oidc' | 'github' };
+
+// Each provider is read from <NAME>_CLIENT_ID, <NAME>_CLIENT_SECRET, <NAME>_ISSUER and <NAME>_SCOPES
+const PROVIDER_DEFINITIONS: Record<string, ProviderDefinition> = {
+  google: {
+    protocol: 'oidc',
+    issuer: 'https://accounts.google.com',
+    issuerAliases: ['accounts.google.com'],
+    scopes: ['openid', 'email', 'profile'],
+  },
+  microsoft: {
+    protocol: 'oidc',
+    // Override with a tenant ID to only let in accounts of one organization
+    issuer: 'https://login.microsoftonline.com/common/v2.0',
+    scopes: ['openid', 'email', 'profile'],
+  },
+  gitlab: {
+    protocol: 'oidc',
+    // Point it to a self-managed instance to use that instead
+    issuer: 'https://gitlab.com',
+    scopes: ['openid', 'email', 'profile'],
+  },
+  github: {
+    protocol: 'github',
+    authorizationUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    userInfoUrl: 'https://api.github.com/user',
+    scopes: ['read:user', 'user:email'],
+  },
+};
+
+export const SOCIAL_PROVIDER_NAMES = Object.keys(PROVIDER_DEFINITIONS);
+
+// Holds the social login providers that have a client ID configured
+@Injectable()
+export class SocialProviderRegistry {
+  private readonly providers = new Map<string, SocialProvider>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpService: HttpService,
+    private readonly jwtService: JwtService,
+  ) {
+    for (const [name, { protocol, ...definition }] of Object.entries(
+      PROVIDER_DEFINITIONS,
+    )) {
+      const prefix = name.toUpperCase();
+      const clientId = this.configService.get<string>(`${prefix}_CLIENT_ID`);
+      if (!clientId) {
+        continue;
+      }
+
+      const config: SocialProviderConfig = {
+        ...definition,
+        name,
+        clientId,
+        clientSecret:
+          this.configService.get<string>(`${prefix}_CLIENT_SECRET`) || null,
+        issuer:
+          this.configService.get<string>(`${prefix}_ISSUER`) ||
+          definition.issuer,
+        scopes:
+          this.configService.get<string>(`${prefix}_SCOPES`)?.split(' ') ??
+          definition.scopes,
+      };
+      this.providers.set(
+        name,
+        protocol === 'oidc'
+          ? new OidcSocialProvider(config, this.httpService, this.jwtService)
+          : new GitHubSocialProvider(config, this.httpService),
+      );
+    }
+  }
+
+  get(name: string): SocialProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new NotFoundException(`Sign in with ${name} is not available.`);
+    }
+    return provider;
+  }
+
+  // Only the providers that can run the authorization code flow
+  list(): string[] {
+    return [...this.providers.values()]
+      .filter((provider) => provider.supportsAuthorizationCode)
+      .map((provider) => provider.name);
+  }
+}
@@ -0,0 +1,122 @@
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+
+export type SocialProviderConfig = {
+  name: string;
+  clientId: string;
+  clientSecret: string | null;
+  scopes: string[];
+  // OpenID Connect providers publish their endpoints under the issuer
+  issuer?: string;
+  // Other spellings of the issuer that show up in ID tokens
+  issuerAliases?: string[];
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  userInfoUrl?: string;
+};
+
+// What every provider boils its user down to
+export type SocialProfile = {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+  raw: Record<string, any>;
+};
+
+// What the provider's token endpoint hands back for a code
+export type ProviderTokens = {
+  accessToken: string;
+  idToken: string | null; // Only from OpenID Connect providers
+};
+
+export type AuthorizationRequest = {
+  state: string;
+  codeChallenge: string; // PKCE, S256
+  redirectUri: string;
+};
+
+// Implemented by every social login adapter, SocialLoginService only talks to this
+export abstract class SocialProvider {
+  constructor(
+    readonly config: SocialProviderConfig,
+    protected readonly httpService: HttpService,
+  ) {}
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  // The code flow needs the client secret, the client ID alone only allows checking ID tokens
+  get supportsAuthorizationCode(): boolean {
+    return !!this.config.clientSecret;
+  }
+
+  abstract getAuthorizationUrl(request: AuthorizationRequest): Promise<string>;
+
+  abstract fetchProfile(
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+  ): Promise<SocialProfile>;
+
+  protected buildAuthorizationUrl(
+    authorizationUrl: string,
+    { state, codeChallenge, redirectUri }: AuthorizationRequest,
+  ): string {
+    const url = new URL(authorizationUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', this.config.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+  }
+
+  // Returns the provider's tokens for the code
+  protected async exchangeCode(
+    tokenUrl: string,
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+  ): Promise<ProviderTokens> {
+    const { data } = await firstValueFrom(
+      this.httpService.post(
+        tokenUrl,
+        new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: redirectUri,
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret ?? '',
+          code_verifier: codeVerifier,
+        }),
+        {
+          headers: {
+            Accept: 'application/json',
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+        },
+      ),
+    );
+    if (!data?.access_token) {
+      throw new Error(data?.error_description ?? data?.error ?? 'No token');
+    }
+    return { accessToken: data.access_token, idToken: data.id_token ?? null };
+  }
+
+  protected async getJson(url: string, accessToken: string): Promise<any> {
+    const { data } = await firstValueFrom(
+      this.httpService.get(url, {
+        headers: {
+          Accept: 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }),
+    );
+    return data;
+  }
+}
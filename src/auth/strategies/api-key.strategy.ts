@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-strategy';
+import { Request } from 'express';
+import {
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  PersonalAccessTokenService,
+} from '../personal-access-token.service';
+import { extractClientInfo } from '../decorators/current-client.decorator';
+
+// Accepts "Authorization: ApiKey <key>", or a bearer token that carries the key prefix
+function extractApiKey(request: Request): string | null {
+  const [scheme, token] = request.headers.authorization?.split(' ') ?? [];
+  if (!token) {
+    return null;
+  }
+  if (scheme === 'ApiKey') {
+    return token;
+  }
+  if (scheme === 'Bearer' && token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+    return token;
+  }
+  return null;
+}
+
+class HeaderApiKeyStrategy extends Strategy {
+  constructor(
+    private readonly verify: (
+      request: Request,
+      apiKey: string,
+      done: (error: any, user?: any) => void,
+    ) => void,
+  ) {
+    super();
+  }
+
+  authenticate(request: Request) {
+    const apiKey = extractApiKey(request);
+    if (!apiKey) {
+      return this.fail(401);
+    }
+
+    this.verify(request, apiKey, (error, user) => {
+      if (error) return this.error(error);
+      if (!user) return this.fail(401);
+      this.success(user);
+    });
+  }
+}
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(
+  HeaderApiKeyStrategy,
+  'api-key',
+) {
+  constructor(
+    private readonly personalAccessTokenService: PersonalAccessTokenService,
+  ) {
+    super();
+  }
+
+  async validate(request: Request, apiKey: string) {
+    return await this.personalAccessTokenService.validate(
+      apiKey,
+      extractClientInfo(request).ipAddress,
+    );
+  }
+}
@@ -1,29 +1,47 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
-import { UsersService } from 'src/users/users.service';
+import { KeyRingService, SIGNING_ALGORITHMS } from '../key-ring.service';
+import { TokenService } from '../token.service';
+import { AuthCookiesService } from '../auth-cookies.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
-    private readonly usersService: UsersService,
-    private readonly configService: ConfigService,
+    private readonly keyRingService: KeyRingService,
+    private readonly tokenService: TokenService,
+    authCookiesService: AuthCookiesService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromExtractors([
         ExtractJwt.fromAuthHeaderAsBearerToken(),
+        (request) => authCookiesService.extractAccessToken(request),
       ]),
       ignoreExpiration: false,
-      secretOrKey: configService.get('ACCESS_TOKEN_SECRET'),
+      algorithms: SIGNING_ALGORITHMS,
+      // Pick the public key from the key ring by the kid in the token header
+      secretOrKeyProvider: (request, rawJwtToken, done) => {
+        let kid: string;
+        try {
+          ({ kid } = JSON.parse(
+            Buffer.from(rawJwtToken.split('.')[0], 'base64url').toString(),
+          ));
+        } catch (error) {
+          return done(new UnauthorizedException());
+        }
+        keyRingService
+          .findVerificationKey(kid)
+          .then((key) => done(key ? null : new UnauthorizedException(), key))
+          .catch((error) => done(error));
+      },
     });
   }
 
   async validate(payload: any) {
-    const user = await this.usersService.findOneById(payload.sub);
-    if (!user || user.tokenVersion !== payload.tokenVersion) {
+    const principal = await this.tokenService.resolveAccessToken(payload);
+    if (!principal) {
       throw new UnauthorizedException();
     }
-    return user;
+    return principal;
   }
 }
@@ -1,15 +1,21 @@
 import { Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { Strategy } from 'passport-local';
+import { Request } from 'express';
 import { AuthService } from '../auth.service';
+import { extractClientInfo } from '../decorators/current-client.decorator';
 
 @Injectable()
 export class LocalStrategy extends PassportStrategy(Strategy) {
   constructor(private readonly authService: AuthService) {
-    super({ usernameField: 'email' });
+    super({ usernameField: 'email', passReqToCallback: true });
   }
 
-  async validate(email: string, password: string) {
-    return await this.authService.verifyUser(email, password);
+  async validate(req: Request, email: string, password: string) {
+    return await this.authService.verifyUser(
+      email,
+      password,
+      extractClientInfo(req).ipAddress,
+    );
   }
 }
@@ -5,6 +5,8 @@ import { Request } from 'express';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from 'src/users/users.service';
 import { TokenService } from '../token.service';
+import { extractClientInfo } from '../decorators/current-client.decorator';
+import { AuthCookiesService } from '../auth-cookies.service';
 
 @Injectable()
 export class RefreshTokenStrategy extends PassportStrategy(
@@ -15,9 +17,13 @@ export class RefreshTokenStrategy extends PassportStrategy(
     private readonly usersService: UsersService,
     private readonly configService: ConfigService,
     private readonly tokenService: TokenService,
+    private readonly authCookiesService: AuthCookiesService,
   ) {
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        (request) => authCookiesService.extractRefreshToken(request),
+      ]),
       secretOrKeyProvider: async (request, rawJwtToken, done) => {
         const secret = configService.get<string>('REFRESH_TOKEN_SECRET');
         done(null, secret);
@@ -27,11 +33,16 @@ export class RefreshTokenStrategy extends PassportStrategy(
   }
 
   async validate(req: Request, payload: any): Promise<any> {
-    const refreshToken = req.headers.authorization?.split(' ')[1];
+    const refreshToken =
+      req.headers.authorization?.split(' ')[1] ??
+      this.authCookiesService.extractRefreshToken(req);
     if (!refreshToken) {
       throw new UnauthorizedException('Refresh token not found');
     }
 
-    return await this.tokenService.validateToken(refreshToken);
+    return await this.tokenService.validateToken(
+      refreshToken,
+      extractClientInfo(req),
+    );
   }
 }
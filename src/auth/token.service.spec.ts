@@ -0,0 +1,181 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { UnauthorizedException } from '@nestjs/common';
+import { TokenService } from './token.service';
+import { CryptoService } from './crypto.service';
+import { KeyRingService } from './key-ring.service';
+import { AccessTokenDenylistService } from './access-token-denylist.service';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { Session } from './entities/session.entity';
+import { OAuthClient } from '../oauth/entities/oauth-client.entity';
+import { UsersService } from '../users/users.service';
+import { User, UserStatus } from '../users/entities/user.entity';
+import { REFRESH_TOKEN_TTL } from '../common/constants';
+
+describe('TokenService', () => {
+  let service: TokenService;
+  let refreshTokens: any[];
+  let sessionRepository: { update: jest.Mock; delete: jest.Mock };
+  let accessTokenDenylistService: { revokeSession: jest.Mock };
+
+  const sessionId = 'b3c1a2d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+  const user = {
+    id: '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d',
+    email: 'test@test.com',
+    status: UserStatus.Active,
+    tokenVersion: 0,
+  } as User;
+
+  beforeEach(async () => {
+    refreshTokens = [];
+
+    // In memory stand in for the refresh token repository
+    const refreshTokenRepository = {
+      create: (data: any) => ({ ...data }),
+      save: async (refreshToken: any) => {
+        const saved = {
+          ...refreshToken,
+          session: { id: refreshToken.session.id, clientId: null },
+          usedAt: null,
+          replacedById: null,
+        };
+        refreshTokens.push(saved);
+        return saved;
+      },
+      findOne: async ({ where }) =>
+        refreshTokens.find((refreshToken) =>
+          where.id
+            ? refreshToken.id === where.id
+            : refreshToken.tokenHash === where.tokenHash,
+        ) ?? null,
+      // Criteria with usedAt only match tokens that were not redeemed yet
+      update: async (criteria: any, data: any) => {
+        const id = typeof criteria === 'string' ? criteria : criteria.id;
+        const refreshToken = refreshTokens.find((item) => item.id === id);
+        if (
+          !refreshToken ||
+          (typeof criteria !== 'string' &&
+            'usedAt' in criteria &&
+            refreshToken.usedAt)
+        ) {
+          return { affected: 0 };
+        }
+        Object.assign(refreshToken, data);
+        return { affected: 1 };
+      },
+    };
+
+    // Deleting a session cascades to its refresh tokens like in the database
+    sessionRepository = {
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      delete: jest.fn().mockImplementation(async ({ id }) => {
+        refreshTokens = refreshTokens.filter(
+          (refreshToken) => refreshToken.session.id !== id,
+        );
+        return { affected: 1 };
+      }),
+    };
+    accessTokenDenylistService = { revokeSession: jest.fn() };
+
+    const configService = {
+      get: (key: string) =>
+        ({ REFRESH_TOKEN_SECRET: 'refresh-token-secret' })[key],
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        TokenService,
+        CryptoService,
+        JwtService,
+        {
+          provide: getRepositoryToken(RefreshToken),
+          useValue: refreshTokenRepository,
+        },
+        {
+          provide: getRepositoryToken(Session),
+          useValue: sessionRepository,
+        },
+        { provide: getRepositoryToken(OAuthClient), useValue: {} },
+        { provide: UsersService, useValue: {} },
+        { provide: KeyRingService, useValue: {} },
+        {
+          provide: AccessTokenDenylistService,
+          useValue: accessTokenDenylistService,
+        },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get(TokenService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rotates a refresh token into a new one of the same session', async () => {
+    const first = await service.createRefreshToken(user, sessionId);
+
+    const redeemed = await service.validateToken(first);
+    expect(redeemed.id).toEqual(user.id);
+    expect(redeemed.sessionId).toEqual(sessionId);
+
+    const second = await service.createRefreshToken(
+      user,
+      sessionId,
+      redeemed.refreshTokenId,
+    );
+    const [firstRow, secondRow] = refreshTokens;
+    expect(firstRow.usedAt).toBeInstanceOf(Date);
+    expect(firstRow.replacedById).toEqual(secondRow.id);
+    expect(secondRow.session.id).toEqual(sessionId);
+
+    // Only the hash is stored, never the token itself
+    expect(secondRow.tokenHash).not.toEqual(second);
+    await expect(service.validateToken(second)).resolves.toMatchObject({
+      sessionId,
+      refreshTokenId: secondRow.id,
+    });
+  });
+
+  it('revokes the session when a used refresh token is presented again', async () => {
+    const first = await service.createRefreshToken(user, sessionId);
+    const { refreshTokenId } = await service.validateToken(first);
+    const second = await service.createRefreshToken(
+      user,
+      sessionId,
+      refreshTokenId,
+    );
+
+    await expect(service.validateToken(first)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(sessionRepository.delete).toHaveBeenCalledWith({
+      id: sessionId,
+      user: { id: user.id },
+    });
+    expect(accessTokenDenylistService.revokeSession).toHaveBeenCalledWith(
+      sessionId,
+    );
+
+    // The token the legitimate client holds went with the session
+    await expect(service.validateToken(second)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('refuses an expired refresh token', async () => {
+    const refreshToken = await service.createRefreshToken(user, sessionId);
+    expect(() => service.verifyRefreshToken(refreshToken)).not.toThrow();
+
+    const expiresAt = Date.now() + REFRESH_TOKEN_TTL * 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(expiresAt + 1000);
+
+    expect(() => service.verifyRefreshToken(refreshToken)).toThrow(
+      UnauthorizedException,
+    );
+    await expect(service.inspectRefreshToken(refreshToken)).resolves.toBeNull();
+  });
+});
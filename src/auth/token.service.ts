@@ -6,91 +6,526 @@ import {
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { randomBytes, scrypt } from 'crypto';
 import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
 import { RefreshToken } from './entities/refresh-token.entity';
+import { Session } from './entities/session.entity';
 import { UsersService } from '../users/users.service';
-import { User } from '../users/entities/user.entity';
+import { User, UserStatus } from '../users/entities/user.entity';
+import { ClientInfo } from './decorators/current-client.decorator';
+import { AuthenticatedResponseDto } from './dtos/auth-response.dto';
+import { CryptoService } from './crypto.service';
+import { SessionDto } from './dtos/session.dto';
+import { KeyRingService, SIGNING_ALGORITHMS } from './key-ring.service';
+import { OAuthClient } from 'src/oauth/entities/oauth-client.entity';
+import { ClientPrincipal } from 'src/oauth/client-principal';
+import { AccessTokenDenylistService } from './access-token-denylist.service';
+import {
+  ACCESS_TOKEN_TTL,
+  CLIENT_ACCESS_TOKEN_TTL,
+  ID_TOKEN_TTL,
+  REFRESH_TOKEN_TTL,
+} from 'src/common/constants';
 
 // Convert scrypt callback function to a promise-based version for async use
 const scryptAsync = promisify(scrypt);
 
+// What a third party application was granted when the session was started through OAuth
+export type SessionGrant = {
+  clientId: string;
+  scope: string;
+};
+
 @Injectable()
 export class TokenService {
   private readonly logger = new Logger(TokenService.name);
   private readonly REFRESH_TOKEN_SECRET: string;
-  private readonly ACCESS_TOKEN_SECRET: string;
 
   constructor(
     @InjectRepository(RefreshToken)
     private refreshTokenRepository: Repository<RefreshToken>,
+    @InjectRepository(Session)
+    private sessionRepository: Repository<Session>,
+    @InjectRepository(OAuthClient)
+    private clientRepository: Repository<OAuthClient>,
     private readonly usersService: UsersService,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
+    private readonly cryptoService: CryptoService,
+    private readonly keyRingService: KeyRingService,
+    private readonly accessTokenDenylistService: AccessTokenDenylistService,
   ) {
     // Retrieve secrets for token signing from the configuration
     this.REFRESH_TOKEN_SECRET = this.configService.get<string>(
       'REFRESH_TOKEN_SECRET',
     );
-    this.ACCESS_TOKEN_SECRET = this.configService.get<string>(
-      'ACCESS_TOKEN_SECRET',
+  }
+
+  async startSession(
+    user: User,
+    client: ClientInfo,
+    amr: string[] = ['pwd'],
+  ): Promise<AuthenticatedResponseDto> {
+    // Every login gets its own session so devices don't log each other out
+    const session = await this.createSession(user, client, undefined, amr);
+
+    const accessToken = await this.createAccessToken(user, session.id);
+    const refreshToken = await this.createRefreshToken(user, session.id);
+
+    return {
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  async createSession(
+    user: User,
+    client: ClientInfo,
+    grant?: SessionGrant,
+    amr?: string[],
+  ): Promise<Session> {
+    const session = this.sessionRepository.create({
+      user,
+      deviceName: client?.deviceName ?? null,
+      userAgent: client?.userAgent ?? null,
+      ipAddress: client?.ipAddress ?? null,
+      clientId: grant?.clientId ?? null,
+      scope: grant?.scope ?? null,
+      authenticatedAt: amr ? new Date() : null,
+      amr: amr ?? null,
+      lastUsedAt: new Date(),
+    });
+    return await this.sessionRepository.save(session);
+  }
+
+  // The user proved who they are again, access tokens issued from now on allow sensitive changes for a while
+  async reauthenticateSession(
+    userId: string,
+    sessionId: string,
+    amr: string[],
+  ): Promise<boolean> {
+    const { affected } = await this.sessionRepository.update(
+      { id: sessionId, user: { id: userId }, clientId: IsNull() },
+      { authenticatedAt: new Date(), amr },
     );
+    return affected > 0;
   }
 
-  async createAccessToken(user: User): Promise<string> {
+  async findSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<Session | null> {
+    return await this.sessionRepository.findOneBy({
+      id: sessionId,
+      user: { id: userId },
+    });
+  }
+
+  async createAccessToken(
+    user: User,
+    sessionId?: string,
+    grant?: SessionGrant,
+  ): Promise<string> {
+    // Refreshed tokens keep the time of the sign in, not of the refresh
+    const session = sessionId
+      ? await this.sessionRepository.findOneBy({ id: sessionId })
+      : null;
+
     // Define payload for access token
     const payload = {
       sub: user.id,
       email: user.email,
       tokenVersion: user.tokenVersion,
+      sid: sessionId,
+      jti: uuidv4(), // Lets this one token be revoked before it expires
+      // Tokens issued to an application only reach the routes its scopes allow
+      ...(grant && { client_id: grant.clientId, scope: grant.scope }),
+      ...(session?.authenticatedAt && {
+        auth_time: Math.floor(session.authenticatedAt.getTime() / 1000),
+        amr: session.amr,
+      }),
     };
-    // Sign and return the access token with user information and expiration
+    // Sign with the active key of the key ring, its kid tells verifiers which public key to use
+    const { kid, alg, privateKey } = this.keyRingService.getSigningKey();
     return this.jwtService.sign(payload, {
-      secret: this.ACCESS_TOKEN_SECRET,
-      expiresIn: '15d',
+      secret: privateKey,
+      algorithm: alg,
+      keyid: kid,
+      expiresIn: ACCESS_TOKEN_TTL,
     });
   }
 
-  async createRefreshToken(user: User): Promise<string> {
-    // Delete all refresh tokens for the user
-    await this.refreshTokenRepository.delete({ user: user });
+  async verifyAccessToken(providedToken: string): Promise<any | null> {
+    const { header } =
+      this.jwtService.decode(providedToken, { complete: true }) ?? {};
+    const key = header?.kid
+      ? await this.keyRingService.findVerificationKey(header.kid)
+      : null;
+    if (!key) {
+      return null;
+    }
+
+    try {
+      return this.jwtService.verify(providedToken, {
+        secret: key,
+        algorithms: SIGNING_ALGORITHMS,
+      });
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Turns a verified access token payload into whoever it speaks for, or null once it no longer does
+  async resolveAccessToken(payload: any): Promise<
+    | (User & {
+        sessionId: string;
+        clientId: string | null;
+        scopes: string[];
+        accessTokenId: string;
+        accessTokenExpiresAt: number;
+        authTime: number | null;
+        amr: string[];
+      })
+    | ClientPrincipal
+    | null
+  > {
+    // Logged out tokens and tokens of revoked sessions
+    if (await this.accessTokenDenylistService.isRevoked(payload)) {
+      return null;
+    }
+
+    if (payload.principal === 'client') {
+      // Deleting a service account cuts off the tokens it still holds
+      const client = await this.clientRepository.findOneBy({
+        clientId: payload.client_id,
+      });
+      if (!client) {
+        return null;
+      }
+      return new ClientPrincipal(
+        client.clientId,
+        client.name,
+        payload.scope ? payload.scope.split(' ') : [],
+      );
+    }
+
+    // Bans and password changes bump the token version
+    const user = await this.usersService.findOneById(payload.sub);
+    if (!user || user.tokenVersion !== payload.tokenVersion) {
+      return null;
+    }
+    // Keep track of the session the token was issued for, without touching the cached user
+    return Object.assign(User.fromPlain(user), {
+      sessionId: payload.sid,
+      clientId: payload.client_id ?? null,
+      scopes: payload.scope ? payload.scope.split(' ') : [],
+      accessTokenId: payload.jti,
+      accessTokenExpiresAt: payload.exp,
+      authTime: payload.auth_time ?? null,
+      amr: payload.amr ?? [],
+    });
+  }
+
+  async revokeAccessToken(jti: string, expiresAt: number): Promise<void> {
+    await this.accessTokenDenylistService.revokeToken(jti, expiresAt);
+  }
+
+  async createClientAccessToken(
+    clientId: string,
+    scope: string,
+  ): Promise<string> {
+    // No user behind these tokens, the principal claim tells JwtStrategy to resolve the client instead
+    const payload = {
+      sub: clientId,
+      client_id: clientId,
+      scope,
+      principal: 'client',
+      jti: uuidv4(),
+    };
+    const { kid, alg, privateKey } = this.keyRingService.getSigningKey();
+    return this.jwtService.sign(payload, {
+      secret: privateKey,
+      algorithm: alg,
+      keyid: kid,
+      expiresIn: CLIENT_ACCESS_TOKEN_TTL,
+    });
+  }
+
+  async createIdToken(
+    user: User,
+    audience: string,
+    claims: Record<string, unknown>,
+  ): Promise<string> {
+    const { kid, alg, privateKey } = this.keyRingService.getSigningKey();
+    return this.jwtService.sign(
+      { ...claims, sub: user.id },
+      {
+        secret: privateKey,
+        algorithm: alg,
+        keyid: kid,
+        issuer: this.configService.get<string>('OAUTH_ISSUER'),
+        audience,
+        expiresIn: ID_TOKEN_TTL,
+      },
+    );
+  }
+
+  async createRefreshToken(
+    user: User,
+    sessionId: string,
+    parentTokenId?: string,
+  ): Promise<string> {
+    // The row id doubles as the jti so the token can be looked up without storing it
+    const refreshTokenId = uuidv4();
 
     // Define payload for refresh token
-    const refreshTokenPayload = { sub: user.id, email: user.email };
+    const refreshTokenPayload = {
+      sub: user.id,
+      email: user.email,
+      sid: sessionId,
+      jti: refreshTokenId,
+      tokenVersion: user.tokenVersion,
+    };
     // Sign the JWT refresh token
     const refreshToken = this.jwtService.sign(refreshTokenPayload, {
       secret: this.REFRESH_TOKEN_SECRET,
-      expiresIn: '30d', // Set longer validity for refresh token
+      expiresIn: REFRESH_TOKEN_TTL, // Set longer validity for refresh token
     });
 
     // Create new refresh token entity
     const refreshTokenEntity = this.refreshTokenRepository.create({
+      id: refreshTokenId,
       user: user,
-      token: refreshToken, // Store the JWT refresh token
-      expiresIn: Date.now() + 30 * 24 * 60 * 60 * 1000, // 30 days from now
+      session: { id: sessionId },
+      tokenHash: this.cryptoService.hashToken(refreshToken), // Only the hash of the JWT is stored
+      expiresIn: Date.now() + REFRESH_TOKEN_TTL * 1000, // 30 days from now
     });
 
     // Save the new refresh token in the database
     await this.refreshTokenRepository.save(refreshTokenEntity);
 
+    // Link the rotated token to its child so the chain of the family can be followed
+    if (parentTokenId) {
+      await this.refreshTokenRepository.update(parentTokenId, {
+        replacedById: refreshTokenEntity.id,
+      });
+    }
+
     return refreshToken;
   }
 
-  async validateToken(providedToken: string): Promise<User> {
+  verifyRefreshToken(providedToken: string): void {
+    try {
+      this.jwtService.verify(providedToken, {
+        secret: this.REFRESH_TOKEN_SECRET,
+      });
+    } catch (error) {
+      throw new UnauthorizedException();
+    }
+  }
+
+  async validateToken(
+    providedToken: string,
+    client?: ClientInfo,
+    clientId: string | null = null,
+  ): Promise<
+    User & {
+      sessionId: string;
+      refreshTokenId: string;
+      grant: SessionGrant | null;
+    }
+  > {
     // Find the corresponding refresh token in the database
-    const refreshToken = await this.refreshTokenRepository.findOne({
-      where: { token: providedToken },
-      relations: ['user'],
-    });
+    const refreshToken = await this.findRefreshToken(providedToken);
 
     if (!refreshToken) {
       // Handle case where no corresponding refresh token is found
       throw new UnauthorizedException();
     }
 
-    return refreshToken.user;
+    // A refresh token can only be redeemed by whoever it was issued to, first party apps pass no client
+    if ((refreshToken.session?.clientId ?? null) !== clientId) {
+      throw new UnauthorizedException();
+    }
+
+    // Each refresh token can be used once, marking it used only succeeds for the first caller
+    const { affected } = await this.refreshTokenRepository.update(
+      { id: refreshToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!affected) {
+      await this.handleTokenReuse(refreshToken, client);
+      throw new UnauthorizedException();
+    }
+
+    let session = refreshToken.session;
+    if (!session) {
+      // Tokens issued before sessions existed are moved into a session of their own
+      session = await this.createSession(refreshToken.user, client);
+      await this.refreshTokenRepository.update(refreshToken.id, { session });
+    } else {
+      await this.sessionRepository.update(session.id, {
+        lastUsedAt: new Date(),
+        ...(client?.ipAddress && { ipAddress: client.ipAddress }),
+      });
+    }
+
+    return Object.assign(User.fromPlain(refreshToken.user), {
+      sessionId: session.id,
+      refreshTokenId: refreshToken.id,
+      grant: session.clientId
+        ? { clientId: session.clientId, scope: session.scope }
+        : null,
+    });
+  }
+
+  async findRefreshToken(providedToken: string): Promise<RefreshToken | null> {
+    const { jti, tokenVersion } = this.jwtService.decode(providedToken) ?? {};
+
+    // Tokens migrated from plaintext storage carry no jti and are found by their hash
+    const refreshToken = await this.refreshTokenRepository.findOne({
+      where: jti
+        ? { id: jti }
+        : { tokenHash: this.cryptoService.hashToken(providedToken) },
+      relations: ['user', 'session'],
+    });
+
+    if (
+      !refreshToken ||
+      !this.cryptoService.compareTokenHash(
+        providedToken,
+        refreshToken.tokenHash,
+      )
+    ) {
+      return null;
+    }
+
+    // Tokens from before a password change or ban are dead, older tokens without a version are let through
+    if (
+      tokenVersion !== undefined &&
+      tokenVersion !== refreshToken.user.tokenVersion
+    ) {
+      return null;
+    }
+    return refreshToken;
+  }
+
+  // Looks a refresh token up without redeeming it
+  async inspectRefreshToken(
+    providedToken: string,
+  ): Promise<RefreshToken | null> {
+    try {
+      this.verifyRefreshToken(providedToken);
+    } catch (error) {
+      return null;
+    }
+
+    const refreshToken = await this.findRefreshToken(providedToken);
+    if (
+      !refreshToken ||
+      refreshToken.usedAt ||
+      refreshToken.user.status === UserStatus.Inactive ||
+      refreshToken.user.status === UserStatus.Deleted ||
+      refreshToken.user.status === UserStatus.Blocked
+    ) {
+      return null;
+    }
+    return refreshToken;
+  }
+
+  // An already rotated token showing up again means it was stolen, so the whole family is revoked
+  private async handleTokenReuse(
+    refreshToken: RefreshToken,
+    client?: ClientInfo,
+  ): Promise<void> {
+    this.logger.warn(
+      JSON.stringify({
+        action: 'refresh-token-reuse',
+        userId: refreshToken.user.id,
+        sessionId: refreshToken.session?.id ?? null,
+        refreshTokenId: refreshToken.id,
+        ipAddress: client?.ipAddress ?? null,
+      }),
+    );
+
+    if (refreshToken.session) {
+      await this.revokeSession(refreshToken.user.id, refreshToken.session.id);
+    } else {
+      await this.refreshTokenRepository.delete(refreshToken.id);
+    }
+  }
+
+  async findSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionDto[]> {
+    const sessions = await this.sessionRepository.find({
+      where: { user: { id: userId } },
+      order: { lastUsedAt: 'DESC' },
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      clientId: session.clientId,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    // Removing the session cascades to its refresh tokens
+    const { affected } = await this.sessionRepository.delete({
+      id: sessionId,
+      user: { id: userId },
+    });
+    if (!affected) {
+      return false;
+    }
+
+    // Access tokens issued for the session stop working right away instead of when they expire
+    await this.accessTokenDenylistService.revokeSession(sessionId);
+    return true;
+  }
+
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId: string,
+  ): Promise<void> {
+    // Tokens issued before sessions existed cannot tell which session is current
+    if (!currentSessionId) {
+      return await this.revokeAllSessions(userId);
+    }
+
+    const sessions = await this.sessionRepository.findBy({
+      id: Not(currentSessionId),
+      user: { id: userId },
+    });
+    await this.deleteSessions(sessions);
+  }
+
+  async revokeAllSessions(userId: string): Promise<void> {
+    const sessions = await this.sessionRepository.findBy({
+      user: { id: userId },
+    });
+    await this.deleteSessions(sessions);
+    await this.refreshTokenRepository.delete({ user: { id: userId } });
+  }
+
+  private async deleteSessions(sessions: Session[]): Promise<void> {
+    if (!sessions.length) {
+      return;
+    }
+    await this.sessionRepository.delete(sessions.map((session) => session.id));
+    for (const session of sessions) {
+      await this.accessTokenDenylistService.revokeSession(session.id);
+    }
   }
 }
@@ -0,0 +1,67 @@
+import { ConfigService } from '@nestjs/config';
+import { TotpService } from './totp.service';
+
+// The SHA1 seed of RFC 6238 Appendix B, "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TotpService', () => {
+  let service: TotpService;
+
+  beforeEach(() => {
+    service = new TotpService(new ConfigService());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const at = (seconds: number) =>
+    jest.spyOn(Date, 'now').mockReturnValue(seconds * 1000);
+
+  // The 8-digit values of Appendix B end in these 6-digit codes
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130'],
+  ])('matches the RFC 6238 test vector at %i', (seconds, code) => {
+    at(seconds);
+
+    expect(service.verify(RFC_SECRET, code)).toEqual(Math.floor(seconds / 30));
+  });
+
+  it('accepts codes from one step before or after, but not further', () => {
+    const t = 1111111109; // 081804 belongs to this step
+    const step = Math.floor(t / 30);
+
+    at(t - 30);
+    expect(service.verify(RFC_SECRET, '081804')).toEqual(step);
+    at(t + 30);
+    expect(service.verify(RFC_SECRET, '081804')).toEqual(step);
+
+    at(t - 60);
+    expect(service.verify(RFC_SECRET, '081804')).toBeNull();
+    at(t + 60);
+    expect(service.verify(RFC_SECRET, '081804')).toBeNull();
+  });
+
+  it('refuses a code whose step was already used', () => {
+    at(59);
+
+    expect(service.verify(RFC_SECRET, '287082', 0)).toEqual(1);
+    expect(service.verify(RFC_SECRET, '287082', 1)).toBeNull();
+  });
+
+  it('refuses codes that are not 6 digits', () => {
+    at(59);
+
+    expect(service.verify(RFC_SECRET, '94287082')).toBeNull();
+    expect(service.verify(RFC_SECRET, '28708a')).toBeNull();
+  });
+
+  it('generates 160-bit base32 secrets', () => {
+    expect(service.generateSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+});
@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { LessThan, MoreThan, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { TrustedDevice } from './entities/trusted-device.entity';
+import { CryptoService } from './crypto.service';
+import { TrustedDeviceDto } from './dtos/trusted-device.dto';
+import { ClientInfo } from './decorators/current-client.decorator';
+
+@Injectable()
+export class TrustedDevicesService {
+  private readonly logger = new Logger(TrustedDevicesService.name);
+  readonly trustDays: number;
+
+  constructor(
+    @InjectRepository(TrustedDevice)
+    private readonly trustedDeviceRepository: Repository<TrustedDevice>,
+    private readonly cryptoService: CryptoService,
+    private readonly configService: ConfigService,
+  ) {
+    this.trustDays =
+      Number(this.configService.get<string>('TRUSTED_DEVICE_DAYS')) || 30;
+  }
+
+  // Returns the device token, only its hash is stored
+  async trust(userId: string, client: ClientInfo): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+
+    await this.trustedDeviceRepository.delete({
+      user: { id: userId },
+      expiresAt: LessThan(new Date()),
+    });
+    const device = await this.trustedDeviceRepository.save(
+      this.trustedDeviceRepository.create({
+        user: { id: userId },
+        tokenHash: this.cryptoService.hashToken(token),
+        deviceName: client.deviceName,
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+        expiresAt: new Date(Date.now() + this.trustDays * 24 * 60 * 60 * 1000),
+      }),
+    );
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'trust-device',
+        userId,
+        deviceId: device.id,
+      }),
+    );
+    return token;
+  }
+
+  async isTrusted(userId: string, token: string | null): Promise<boolean> {
+    if (!token) {
+      return false;
+    }
+
+    // The token must belong to this user, a device trusted for another account proves nothing
+    const device = await this.trustedDeviceRepository.findOneBy({
+      tokenHash: this.cryptoService.hashToken(token),
+      user: { id: userId },
+      expiresAt: MoreThan(new Date()),
+    });
+    if (!device) {
+      return false;
+    }
+
+    await this.trustedDeviceRepository.update(device.id, {
+      lastUsedAt: new Date(),
+    });
+    return true;
+  }
+
+  async findAll(
+    userId: string,
+    currentToken: string | null,
+  ): Promise<TrustedDeviceDto[]> {
+    const devices = await this.trustedDeviceRepository.find({
+      where: { user: { id: userId }, expiresAt: MoreThan(new Date()) },
+      order: { createdAt: 'DESC' },
+    });
+    const currentHash = currentToken
+      ? this.cryptoService.hashToken(currentToken)
+      : null;
+
+    return devices.map((device) => ({
+      id: device.id,
+      deviceName: device.deviceName,
+      userAgent: device.userAgent,
+      ipAddress: device.ipAddress,
+      expiresAt: device.expiresAt,
+      lastUsedAt: device.lastUsedAt,
+      createdAt: device.createdAt,
+      current: device.tokenHash === currentHash,
+    }));
+  }
+
+  async revoke(userId: string, deviceId: string): Promise<boolean> {
+    const { affected } = await this.trustedDeviceRepository.delete({
+      id: deviceId,
+      user: { id: userId },
+    });
+    return affected > 0;
+  }
+
+  async revokeAll(userId: string): Promise<void> {
+    await this.trustedDeviceRepository.delete({ user: { id: userId } });
+  }
+}
@@ -11,6 +11,21 @@ import { ValidateOtpDto } from './dtos/validate-otp.dto';
 import { JwtService } from '@nestjs/jwt';
 import { Resend2faOtpDto } from './dtos/resend-2fa-otp.dto';
 import { EmailService } from 'src/notifications/email.service';
+import { SmsService } from 'src/notifications/sms.service';
+import { TotpService } from './totp.service';
+import { RecoveryCodesService } from './recovery-codes.service';
+import { RecoveryCodesDto } from './dtos/recovery-codes.dto';
+import { TotpSetupResponseDto } from './dtos/totp-setup.dto';
+import { TwoFactorMethod } from 'src/users/entities/user.entity';
+import { OtpService } from './otp.service';
+import { OtpPurpose } from './enums';
+import { LoginAttemptsService } from './login-attempts.service';
+import { TrustedDevicesService } from './trusted-devices.service';
+import { ReauthenticationRequiredException } from 'src/common/exceptions/reauthentication-required.exception';
+import { REAUTHENTICATION_MAX_AGE } from 'src/common/constants';
+
+// Set as claim and audience, so no other token signed with the same secret passes as one
+const TEMP_AUTH_TOKEN_PURPOSE = '2fa';
 
 @Injectable()
 export class TwoFactorAuthenticationService {
@@ -20,35 +35,306 @@ export class TwoFactorAuthenticationService {
     private readonly usersService: UsersService,
     private readonly cryptoService: CryptoService,
     private readonly emailService: EmailService,
+    private readonly smsService: SmsService,
     private readonly jwtService: JwtService,
+    private readonly totpService: TotpService,
+    private readonly recoveryCodesService: RecoveryCodesService,
+    private readonly otpService: OtpService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly trustedDevicesService: TrustedDevicesService,
   ) {}
 
+  // Issued after the first login step, it only proves the password or link for finishing the login
+  createTempAuthToken(userId: string): string {
+    return this.jwtService.sign(
+      { purpose: TEMP_AUTH_TOKEN_PURPOSE, userId },
+      { audience: TEMP_AUTH_TOKEN_PURPOSE, expiresIn: '10m' },
+    );
+  }
+
+  // Returns the user ID of a valid temporary token, or null
+  verifyTempAuthToken(tempAuthToken: string): string | null {
+    try {
+      const decoded = this.jwtService.verify(tempAuthToken, {
+        audience: TEMP_AUTH_TOKEN_PURPOSE,
+      });
+      if (
+        decoded.purpose !== TEMP_AUTH_TOKEN_PURPOSE ||
+        typeof decoded.userId !== 'string' ||
+        !decoded.userId
+      ) {
+        return null;
+      }
+      return decoded.userId;
+    } catch (error) {
+      return null;
+    }
+  }
+
   async setup2FA(user: any): Promise<{ message: string }> {
-    const [otp, hashedOtp] =
-      await this.cryptoService.generateAndHashOtp6Figures();
-    await this.usersService.updateCurrentUser(user.id, {
-      twoFactorAuthToken: hashedOtp,
-      twoFactorAuthTokenExpiry: new Date(Date.now() + 3600000), // 1 hour validity
-    });
-    await this.emailService.sendOtpEmail(user.email, otp);
-    return { message: 'OTP Code Has Been Sent' };
+    return await this.sendOtp(user, TwoFactorMethod.Email);
+  }
+
+  async setupSms2FA(user: any): Promise<{ message: string }> {
+    const currentUser = await this.usersService.findByEmail(user.email);
+    if (!currentUser?.phoneNumber || !currentUser.isPhoneVerified) {
+      throw new BadRequestException('Please verify your phone number first.');
+    }
+    return await this.sendOtp(currentUser, TwoFactorMethod.Sms);
+  }
+
+  // Sends the code for the second step of a login to the user's email or phone
+  async sendLoginCode(
+    user: any,
+  ): Promise<{ message: string; twoFactorMethod: TwoFactorMethod }> {
+    const method = this.getDeliveryMethod(user);
+    return { ...(await this.sendOtp(user, method)), twoFactorMethod: method };
+  }
+
+  async initiateDisable2FA(user: any): Promise<{ message: string }> {
+    return await this.sendConfirmationCode(user);
+  }
+
+  // Authenticator app users already have a code, everyone else gets one by email or SMS
+  async sendConfirmationCode(user: any): Promise<{ message: string }> {
+    const currentUser = await this.usersService.findByEmail(user.email);
+    if (
+      currentUser?.isTwoFactorAuthEnabled &&
+      currentUser.twoFactorMethod === TwoFactorMethod.Totp
+    ) {
+      return { message: 'Enter a code from your authenticator app.' };
+    }
+    return await this.sendOtp(
+      currentUser ?? user,
+      this.getDeliveryMethod(currentUser ?? user),
+    );
   }
 
   async verify2FA(
     user: any,
     verify2FADto: ValidateOtpDto,
     requiredValue: boolean,
-  ): Promise<{ message: string }> {
+  ): Promise<{ message: string; recoveryCodes?: string[] }> {
     const { otp } = verify2FADto;
+
+    const currentUser = await this.usersService.findByEmail(user.email);
+    if (requiredValue) {
+      this.assertCurrentMethodConfirmed(
+        currentUser,
+        user,
+        TwoFactorMethod.Email,
+      );
+    }
+
+    // Authenticator app users prove themselves with a code from the app to turn 2FA off
+    if (
+      !requiredValue &&
+      currentUser?.isTwoFactorAuthEnabled &&
+      currentUser.twoFactorMethod === TwoFactorMethod.Totp
+    ) {
+      if (!(await this.verifyTotp(currentUser, otp))) {
+        throw new UnauthorizedException(
+          'Invalid authenticator code. Please try again.',
+        );
+      }
+      await this.usersService.update(currentUser.id, {
+        isTwoFactorAuthEnabled: false,
+        twoFactorMethod: TwoFactorMethod.Email,
+        totpSecret: null,
+        totpLastUsedStep: null,
+      });
+      await this.recoveryCodesService.removeAll(currentUser.id);
+      await this.trustedDevicesService.revokeAll(currentUser.id);
+      return { message: '2FA Setup Successful' };
+    }
+
     const validatedUser = await this.getUserAndValidateOtp(user.email, otp);
 
+    // Email codes replace the authenticator app when 2FA is enabled this way
     await this.usersService.update(validatedUser.id, {
       isTwoFactorAuthEnabled: requiredValue,
+      twoFactorMethod: TwoFactorMethod.Email,
+      totpSecret: null,
+      totpLastUsedStep: null,
+      twoFactorAuthToken: null,
+      twoFactorAuthTokenExpiry: null,
+    });
+
+    // Devices trusted before must not skip 2FA once it is turned on again
+    if (!requiredValue) {
+      await this.recoveryCodesService.removeAll(validatedUser.id);
+      await this.trustedDevicesService.revokeAll(validatedUser.id);
+      return { message: '2FA Setup Successful' };
+    }
+
+    // Switching from the authenticator app keeps the codes the user already saved
+    if (validatedUser.isTwoFactorAuthEnabled) {
+      return { message: '2FA Setup Successful' };
+    }
+    return {
+      message: '2FA Setup Successful',
+      recoveryCodes: await this.recoveryCodesService.generate(validatedUser.id),
+    };
+  }
+
+  async enableSms2FA(
+    user: any,
+    body: ValidateOtpDto,
+  ): Promise<{ message: string; recoveryCodes?: string[] }> {
+    // Checked before the code is used up
+    this.assertCurrentMethodConfirmed(
+      await this.usersService.findByEmail(user.email),
+      user,
+      TwoFactorMethod.Sms,
+    );
+
+    const validatedUser = await this.getUserAndValidateOtp(
+      user.email,
+      body.otp,
+    );
+    if (!validatedUser.phoneNumber || !validatedUser.isPhoneVerified) {
+      throw new BadRequestException('Please verify your phone number first.');
+    }
+
+    await this.usersService.update(validatedUser.id, {
+      isTwoFactorAuthEnabled: true,
+      twoFactorMethod: TwoFactorMethod.Sms,
+      totpSecret: null,
+      totpLastUsedStep: null,
+      twoFactorAuthToken: null,
+      twoFactorAuthTokenExpiry: null,
+    });
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'enable-2fa',
+        userId: validatedUser.id,
+        method: 'sms',
+      }),
+    );
+
+    if (validatedUser.isTwoFactorAuthEnabled) {
+      return { message: '2FA Setup Successful' };
+    }
+    return {
+      message: '2FA Setup Successful',
+      recoveryCodes: await this.recoveryCodesService.generate(validatedUser.id),
+    };
+  }
+
+  async setupTotp(user: any): Promise<TotpSetupResponseDto> {
+    const secret = this.totpService.generateSecret();
+
+    // The current method keeps working until the app is confirmed
+    await this.usersService.update(user.id, {
+      pendingTotpSecret: this.cryptoService.encryptSecret(secret),
+    });
+
+    return {
+      secret,
+      otpauthUri: this.totpService.buildUri(secret, user.email),
+    };
+  }
+
+  async enableTotp(
+    user: any,
+    body: ValidateOtpDto,
+  ): Promise<{ message: string; recoveryCodes?: string[] }> {
+    // Read past the user cache, the pending secret was just written
+    const currentUser = await this.usersService.findByEmail(user.email);
+    if (!currentUser?.pendingTotpSecret) {
+      throw new BadRequestException(
+        'No authenticator app setup found. Please initiate setup first.',
+      );
+    }
+    this.assertCurrentMethodConfirmed(currentUser, user, TwoFactorMethod.Totp);
+
+    const step = this.totpService.verify(
+      this.cryptoService.decryptSecret(currentUser.pendingTotpSecret),
+      body.otp,
+    );
+    if (step === null) {
+      throw new UnauthorizedException(
+        'Invalid authenticator code. Please try again.',
+      );
+    }
+
+    await this.usersService.update(currentUser.id, {
+      isTwoFactorAuthEnabled: true,
+      twoFactorMethod: TwoFactorMethod.Totp,
+      totpSecret: currentUser.pendingTotpSecret,
+      pendingTotpSecret: null,
+      totpLastUsedStep: step,
       twoFactorAuthToken: null,
       twoFactorAuthTokenExpiry: null,
     });
 
-    return { message: '2FA Setup Successful' };
+    this.logger.log(
+      JSON.stringify({
+        action: 'enable-2fa',
+        userId: currentUser.id,
+        method: 'totp',
+      }),
+    );
+
+    if (currentUser.isTwoFactorAuthEnabled) {
+      return { message: 'Authenticator app has been set up.' };
+    }
+    return {
+      message: 'Authenticator app has been set up.',
+      recoveryCodes: await this.recoveryCodesService.generate(currentUser.id),
+    };
+  }
+
+  async regenerateRecoveryCodes(user: any): Promise<RecoveryCodesDto> {
+    const currentUser = await this.usersService.findByEmail(user.email);
+    if (!currentUser?.isTwoFactorAuthEnabled) {
+      throw new BadRequestException('2FA is not enabled for this account.');
+    }
+    return {
+      recoveryCodes: await this.recoveryCodesService.generate(currentUser.id),
+    };
+  }
+
+  // The second step of a 2FA login, with a code of the user's method or a recovery code
+  async verifyLoginCode(user: any, otp: string): Promise<boolean> {
+    // Recovery codes are not replaced by a new login either, wrong ones count like authenticator codes
+    if (this.recoveryCodesService.isRecoveryCode(otp)) {
+      return await this.loginAttemptsService.verifySecondFactor(user, () =>
+        this.recoveryCodesService.consume(user, otp),
+      );
+    }
+    if (user.twoFactorMethod === TwoFactorMethod.Totp) {
+      return await this.verifyTotp(user, otp);
+    }
+    return await this.otpService.verify(user.id, OtpPurpose.TwoFactor, otp);
+  }
+
+  async verifyTotp(user: any, otp: string): Promise<boolean> {
+    const currentUser = await this.usersService.findByEmail(user.email);
+    if (!currentUser?.totpSecret) {
+      return false;
+    }
+
+    // A 6-digit code can be guessed, so wrong ones count towards locking the account
+    return await this.loginAttemptsService.verifySecondFactor(
+      currentUser,
+      async () => {
+        const step = this.totpService.verify(
+          this.cryptoService.decryptSecret(currentUser.totpSecret),
+          otp,
+          currentUser.totpLastUsedStep,
+        );
+        if (step === null) {
+          return false;
+        }
+
+        await this.usersService.update(currentUser.id, {
+          totpLastUsedStep: step,
+        });
+        return true;
+      },
+    );
   }
 
   async getUserAndValidateOtp(email: string, otp: string) {
@@ -62,9 +348,10 @@ export class TwoFactorAuthenticationService {
         'The OTP code has expired. Please request a new one.',
       );
     }
-    const isOtpValid = await this.cryptoService.validateOtp(
+    const isOtpValid = await this.otpService.verify(
+      user.id,
+      OtpPurpose.TwoFactor,
       otp,
-      user.twoFactorAuthToken,
     );
     if (!isOtpValid) {
       throw new UnauthorizedException('Invalid OTP code. Please try again.');
@@ -86,18 +373,15 @@ export class TwoFactorAuthenticationService {
       );
     }
 
-    // Generate and hash a new OTP
-    const [generatedOtp, hashedOtp] =
-      await this.cryptoService.generateAndHashOtp6Figures();
-
-    // Send the new OTP email
-    await this.emailService.sendOtpEmail(user.email, generatedOtp);
+    // A new code with a fresh attempt count replaces the old one
+    const generatedOtp = await this.otpService.issue(
+      user.id,
+      OtpPurpose.TwoFactor,
+      60 * 60 * 1000,
+    );
 
-    // Update the OTP and expiry time in the user's document
-    await this.usersService.updateCurrentUser(user.id, {
-      twoFactorAuthToken: hashedOtp,
-      twoFactorAuthTokenExpiry: new Date(Date.now() + 60 * 60 * 1000),
-    });
+    // Send the new OTP by email or SMS
+    await this.deliverOtp(user, generatedOtp, this.getDeliveryMethod(user));
 
     return { message: 'OTP has been resent.' };
   }
@@ -106,12 +390,10 @@ export class TwoFactorAuthenticationService {
     body: Resend2faOtpDto,
   ): Promise<{ tempAuthToken: string; message: string }> {
     const { tempAuthToken } = body;
-    let userId: string;
 
-    try {
-      const decoded = this.jwtService.verify(tempAuthToken); // Verify the existing temporary token
-      userId = decoded.userId;
-    } catch (error) {
+    // Verify the existing temporary token
+    const userId = this.verifyTempAuthToken(tempAuthToken);
+    if (!userId) {
       throw new UnauthorizedException('Invalid or expired temporary token.');
     }
 
@@ -129,28 +411,86 @@ export class TwoFactorAuthenticationService {
       );
     }
 
-    // Generate and hash a new OTP
-    const [generatedOtp, hashedOtp] =
-      await this.cryptoService.generateAndHashOtp6Figures();
-
-    // Send the new OTP email
-    await this.emailService.sendOtpEmail(user.email, generatedOtp);
+    // A new code with a fresh attempt count replaces the old one
+    const generatedOtp = await this.otpService.issue(
+      user.id,
+      OtpPurpose.TwoFactor,
+      10 * 60 * 1000,
+    );
 
-    // Update the OTP and expiry time in the user's document
-    await this.usersService.updateCurrentUser(user.id, {
-      twoFactorAuthToken: hashedOtp,
-      twoFactorAuthTokenExpiry: new Date(Date.now() + 10 * 60 * 1000),
-    });
+    // Send the new OTP by email or SMS
+    const method = this.getDeliveryMethod(user);
+    await this.deliverOtp(user, generatedOtp, method);
 
     // Generate a new temporary authentication token
-    const newTempAuthToken = this.jwtService.sign(
-      { userId: user.id },
-      { expiresIn: '10m' },
-    );
+    const newTempAuthToken = this.createTempAuthToken(user.id);
 
     return {
       tempAuthToken: newTempAuthToken,
-      message: 'A new OTP has been sent to your email.',
+      message:
+        method === TwoFactorMethod.Sms
+          ? 'A new OTP has been sent to your phone.'
+          : 'A new OTP has been sent to your email.',
     };
   }
+
+  private async sendOtp(
+    user: any,
+    method: TwoFactorMethod,
+  ): Promise<{ message: string }> {
+    const otp = await this.otpService.issue(
+      user.id,
+      OtpPurpose.TwoFactor,
+      3600000, // 1 hour validity
+    );
+    await this.deliverOtp(user, otp, method);
+    return { message: 'OTP Code Has Been Sent' };
+  }
+
+  private async deliverOtp(
+    user: any,
+    otp: string,
+    method: TwoFactorMethod,
+  ): Promise<void> {
+    if (method === TwoFactorMethod.Sms) {
+      await this.smsService.sendOtpSms(user.phoneNumber, otp);
+    } else {
+      await this.emailService.sendOtpEmail(user.email, otp);
+    }
+  }
+
+  // Switching methods or enrolling a new app must not get around the current method, like disabling 2FA
+  private assertCurrentMethodConfirmed(
+    currentUser: any,
+    user: any,
+    method: TwoFactorMethod,
+  ): void {
+    if (!currentUser?.isTwoFactorAuthEnabled) {
+      return;
+    }
+    // A code sent to the same email or phone as before already proves the current method
+    if (
+      method !== TwoFactorMethod.Totp &&
+      method === this.getDeliveryMethod(currentUser)
+    ) {
+      return;
+    }
+    // Otherwise the session must have been confirmed with a code of the current method
+    if (user.amr?.includes('otp')) {
+      return;
+    }
+    throw new ReauthenticationRequiredException(
+      REAUTHENTICATION_MAX_AGE,
+      'Please confirm your identity with a code from your current 2FA method to continue.',
+    );
+  }
+
+  // Codes go by SMS only while the phone number is verified, email is the fallback
+  private getDeliveryMethod(user: any): TwoFactorMethod {
+    return user.twoFactorMethod === TwoFactorMethod.Sms &&
+      user.phoneNumber &&
+      user.isPhoneVerified
+      ? TwoFactorMethod.Sms
+      : TwoFactorMethod.Email;
+  }
 }
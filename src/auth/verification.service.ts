@@ -6,12 +6,12 @@ import {
   UnauthorizedException,
 } from '@nestjs/common';
 import { UsersService } from '../users/users.service';
-import { CryptoService } from './crypto.service';
 import { User } from 'src/users/entities/user.entity';
 import { EmailService } from 'src/notifications/email.service';
-import { DataToBeVerified } from './enums';
+import { DataToBeVerified, OtpPurpose } from './enums';
 import { ValidateOtpDto } from './dtos/validate-otp.dto';
 import { SmsService } from 'src/notifications/sms.service';
+import { OtpService } from './otp.service';
 
 @Injectable()
 export class VerificationService {
@@ -19,7 +19,7 @@ export class VerificationService {
 
   constructor(
     private readonly usersService: UsersService,
-    private readonly cryptoService: CryptoService,
+    private readonly otpService: OtpService,
     private readonly emailService: EmailService,
     private readonly smsService: SmsService,
   ) {}
@@ -28,17 +28,15 @@ export class VerificationService {
     user: User,
     dataToBeVerified: DataToBeVerified,
   ): Promise<{ message: string }> {
-    const [generatedOtp, hashedOtp] =
-      await this.cryptoService.generateAndHashOtp6Figures();
-
     if (dataToBeVerified === DataToBeVerified.Email) {
       if (user.isEmailVerified === true) {
         throw new BadRequestException();
       }
-      await this.usersService.update(user.id, {
-        verifyEmailToken: hashedOtp,
-        verifyEmailExpires: new Date(Date.now() + 3600000),
-      });
+      const generatedOtp = await this.otpService.issue(
+        user.id,
+        OtpPurpose.Email,
+        3600000,
+      );
       await this.emailService.sendOtpEmail(user.email, generatedOtp);
 
       return { message: 'OTP Code Has Been Sent' };
@@ -46,11 +44,12 @@ export class VerificationService {
       if (user.isPhoneVerified === true) {
         throw new BadRequestException();
       }
-      await this.usersService.update(user.id, {
-        verifyPhoneToken: hashedOtp,
-        verifyPhoneExpires: new Date(Date.now() + 3600000),
-      });
-      await this.smsService.sendSMS(user.phoneNumber, generatedOtp);
+      const generatedOtp = await this.otpService.issue(
+        user.id,
+        OtpPurpose.Phone,
+        3600000,
+      );
+      await this.smsService.sendOtpSms(user.phoneNumber, generatedOtp);
 
       return { message: 'OTP Code Has Been Sent' };
     }
@@ -108,9 +107,10 @@ export class VerificationService {
       if (new Date(Date.now()) > user.verifyEmailExpires) {
         throw new BadRequestException();
       }
-      const isOtpValid = await this.cryptoService.validateOtp(
+      const isOtpValid = await this.otpService.verify(
+        user.id,
+        OtpPurpose.Email,
         otp,
-        user.verifyEmailToken,
       );
       if (!isOtpValid) {
         throw new UnauthorizedException();
@@ -124,9 +124,10 @@ export class VerificationService {
       if (new Date(Date.now()) > user.verifyPhoneExpires) {
         throw new BadRequestException();
       }
-      const isOtpValid = await this.cryptoService.validateOtp(
+      const isOtpValid = await this.otpService.verify(
+        user.id,
+        OtpPurpose.Phone,
         otp,
-        user.verifyPhoneToken,
       );
       if (!isOtpValid) {
         throw new UnauthorizedException();
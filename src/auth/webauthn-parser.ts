@@ -0,0 +1,164 @@
+import { createPublicKey, KeyObject } from 'crypto';
+
+// Just enough CBOR (RFC 8949) for attestation objects and COSE keys: integers, byte and text strings, arrays and maps
+export function decodeCbor(buffer: Buffer): { value: any; length: number } {
+  let offset = 0;
+
+  const readLength = (additional: number): number => {
+    if (additional < 24) {
+      return additional;
+    }
+    const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[additional];
+    if (!size || offset + size > buffer.length) {
+      throw new Error('Unsupported CBOR length.');
+    }
+    const value =
+      size === 8
+        ? Number(buffer.readBigUInt64BE(offset))
+        : buffer.readUIntBE(offset, size);
+    offset += size;
+    return value;
+  };
+
+  const readItem = (): any => {
+    if (offset >= buffer.length) {
+      throw new Error('Unexpected end of CBOR data.');
+    }
+    const initial = buffer[offset++];
+    const majorType = initial >> 5;
+    const length = readLength(initial & 0x1f);
+
+    switch (majorType) {
+      case 0:
+        return length;
+      case 1:
+        return -1 - length;
+      case 2:
+      case 3: {
+        if (offset + length > buffer.length) {
+          throw new Error('Unexpected end of CBOR data.');
+        }
+        const bytes = buffer.subarray(offset, offset + length);
+        offset += length;
+        return majorType === 2 ? Buffer.from(bytes) : bytes.toString('utf8');
+      }
+      case 4:
+        return Array.from({ length }, () => readItem());
+      case 5: {
+        const map = new Map<any, any>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 7:
+        // Simple values, only false, true and null show up in WebAuthn data
+        if (length === 20 || length === 21) {
+          return length === 21;
+        }
+        if (length === 22) {
+          return null;
+        }
+        throw new Error('Unsupported CBOR simple value.');
+      default:
+        throw new Error('Unsupported CBOR type.');
+    }
+  };
+
+  const value = readItem();
+  return { value, length: offset };
+}
+
+export type AuthenticatorData = {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  backedUp: boolean;
+  signCount: number;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<number, any>;
+};
+
+// Layout from https://www.w3.org/TR/webauthn-2/#sctn-authenticator-data
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new Error('Authenticator data is too short.');
+  }
+  const flags = data[32];
+  const authenticatorData: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: !!(flags & 0x01),
+    userVerified: !!(flags & 0x04),
+    backedUp: !!(flags & 0x10),
+    signCount: data.readUInt32BE(33),
+  };
+
+  // Attested credential data is only present at registration
+  if (flags & 0x40) {
+    const credentialIdLength = data.readUInt16BE(53);
+    const credentialIdEnd = 55 + credentialIdLength;
+    authenticatorData.credentialId = data.subarray(55, credentialIdEnd);
+    authenticatorData.credentialPublicKey = decodeCbor(
+      data.subarray(credentialIdEnd),
+    ).value;
+  }
+  return authenticatorData;
+}
+
+// COSE algorithm identifiers of the keys we accept
+export enum CoseAlgorithm {
+  ES256 = -7,
+  EdDSA = -8,
+  RS256 = -257,
+}
+
+export function coseKeyToPublicKey(coseKey: Map<number, any>): {
+  publicKey: KeyObject;
+  algorithm: CoseAlgorithm;
+} {
+  const keyType = coseKey.get(1);
+  const algorithm = coseKey.get(3);
+
+  if (keyType === 2 && algorithm === CoseAlgorithm.ES256) {
+    return {
+      algorithm,
+      publicKey: createPublicKey({
+        format: 'jwk',
+        key: {
+          kty: 'EC',
+          crv: 'P-256',
+          x: coseKey.get(-2).toString('base64url'),
+          y: coseKey.get(-3).toString('base64url'),
+        },
+      }),
+    };
+  }
+  if (keyType === 1 && algorithm === CoseAlgorithm.EdDSA) {
+    return {
+      algorithm,
+      publicKey: createPublicKey({
+        format: 'jwk',
+        key: {
+          kty: 'OKP',
+          crv: 'Ed25519',
+          x: coseKey.get(-2).toString('base64url'),
+        },
+      }),
+    };
+  }
+  if (keyType === 3 && algorithm === CoseAlgorithm.RS256) {
+    return {
+      algorithm,
+      publicKey: createPublicKey({
+        format: 'jwk',
+        key: {
+          kty: 'RSA',
+          n: coseKey.get(-1).toString('base64url'),
+          e: coseKey.get(-2).toString('base64url'),
+        },
+      }),
+    };
+  }
+  throw new Error('Unsupported credential public key.');
+}
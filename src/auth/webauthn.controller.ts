@@ -0,0 +1,118 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { WebAuthnService } from './webauthn.service';
+import { AuthService } from './auth.service';
+import {
+  DeleteWebAuthnCredentialDecorator,
+  GetWebAuthnCredentialsDecorator,
+  WebAuthnLoginDecorator,
+  WebAuthnLoginOptionsDecorator,
+  WebAuthnRegisterDecorator,
+  WebAuthnRegistrationOptionsDecorator,
+  WebAuthnTwoFactorLoginDecorator,
+  WebAuthnTwoFactorOptionsDecorator,
+} from './decorators';
+import {
+  RegisterWebAuthnCredentialDto,
+  WebAuthnCredentialDto,
+  WebAuthnLoginDto,
+  WebAuthnTwoFactorLoginDto,
+} from './dtos/webauthn.dto';
+import { AuthenticatedResponseDto } from './dtos/auth-response.dto';
+import { CurrentUser } from 'src/users/decorators/current-user.decorator';
+import {
+  ClientInfo,
+  CurrentClient,
+} from './decorators/current-client.decorator';
+import { AuthCookiesInterceptor } from './interceptors/auth-cookies.interceptor';
+
+@ApiTags('auth')
+@UseInterceptors(AuthCookiesInterceptor)
+@Controller('auth/webauthn')
+export class WebAuthnController {
+  constructor(
+    private readonly webAuthnService: WebAuthnService,
+    private readonly authService: AuthService,
+  ) {}
+
+  @WebAuthnRegistrationOptionsDecorator()
+  @Post('register/options')
+  async getRegistrationOptions(@CurrentUser() user: any) {
+    return await this.webAuthnService.generateRegistrationOptions(user);
+  }
+
+  @WebAuthnRegisterDecorator()
+  @Post('register')
+  async register(
+    @CurrentUser() user: any,
+    @Body() body: RegisterWebAuthnCredentialDto,
+  ): Promise<WebAuthnCredentialDto> {
+    return await this.webAuthnService.verifyRegistration(user, body);
+  }
+
+  @WebAuthnLoginOptionsDecorator()
+  @Post('login/options')
+  async getLoginOptions() {
+    return await this.webAuthnService.generateAuthenticationOptions();
+  }
+
+  @WebAuthnLoginDecorator()
+  @Post('login')
+  async login(
+    @Body() body: WebAuthnLoginDto,
+    @CurrentClient() client: ClientInfo,
+  ): Promise<AuthenticatedResponseDto> {
+    const user = await this.webAuthnService.verifyAuthentication(
+      body.credential,
+    );
+    return await this.authService.loginWithPasskey(user, client);
+  }
+
+  @WebAuthnTwoFactorOptionsDecorator()
+  @Post('2fa/options')
+  async getTwoFactorOptions(@CurrentUser() user: any) {
+    return await this.webAuthnService.generateAuthenticationOptions(user);
+  }
+
+  @WebAuthnTwoFactorLoginDecorator()
+  @Post('2fa')
+  async loginWithTwoFactor(
+    @CurrentUser() user: any,
+    @Body() body: WebAuthnTwoFactorLoginDto,
+    @CurrentClient() client: ClientInfo,
+  ): Promise<AuthenticatedResponseDto> {
+    await this.webAuthnService.verifyAuthentication(body.credential, user);
+    return await this.authService.loginWithPasskey(user, client);
+  }
+
+  @GetWebAuthnCredentialsDecorator()
+  @Get('credentials')
+  async getCredentials(
+    @CurrentUser() user: any,
+  ): Promise<WebAuthnCredentialDto[]> {
+    return await this.webAuthnService.findAll(user.id);
+  }
+
+  @DeleteWebAuthnCredentialDecorator()
+  @Delete('credentials/:credentialId')
+  async deleteCredential(
+    @CurrentUser() user: any,
+    @Param('credentialId', ParseUUIDPipe) credentialId: string,
+  ): Promise<{ message: string }> {
+    const removed = await this.webAuthnService.remove(user.id, credentialId);
+    if (!removed) {
+      throw new NotFoundException('Passkey not found.');
+    }
+    return { message: 'Passkey has been removed.' };
+  }
+}
@@ -0,0 +1,335 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { caching } from 'cache-manager';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import {
+  createHash,
+  generateKeyPairSync,
+  KeyObject,
+  randomBytes,
+  sign,
+} from 'crypto';
+import { WebAuthnService } from './webauthn.service';
+import { WebAuthnCredential } from './entities/webauthn-credential.entity';
+import { User } from '../users/entities/user.entity';
+
+const RP_ID = 'example.com';
+const ORIGIN = 'https://example.com';
+
+// Minimal CBOR encoder, enough to build what an authenticator would send
+function encodeCbor(value: any): Buffer {
+  const head = (majorType: number, length: number) =>
+    length < 24
+      ? Buffer.from([(majorType << 5) | length])
+      : length < 256
+        ? Buffer.from([(majorType << 5) | 24, length])
+        : Buffer.from([(majorType << 5) | 25, length >> 8, length & 0xff]);
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    return Buffer.concat([
+      head(3, Buffer.byteLength(value)),
+      Buffer.from(value),
+    ]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  const entries = value instanceof Map ? [...value] : Object.entries(value);
+  return Buffer.concat([
+    head(5, entries.length),
+    ...entries.flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]),
+  ]);
+}
+
+// Software authenticator holding a single ES256 passkey
+class SoftwareAuthenticator {
+  readonly credentialId = randomBytes(16);
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  signCount = 0;
+
+  constructor(private readonly userHandle: string) {
+    ({ privateKey: this.privateKey, publicKey: this.publicKey } =
+      generateKeyPairSync('ec', { namedCurve: 'P-256' }));
+  }
+
+  createCredential(challenge: string, origin = ORIGIN) {
+    const jwk = this.publicKey.export({ format: 'jwk' });
+    const coseKey = new Map<number, any>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x, 'base64url')],
+      [-3, Buffer.from(jwk.y, 'base64url')],
+    ]);
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([
+      this.authenticatorDataHeader(0x45), // user present, user verified, attested credential data
+      Buffer.alloc(16), // aaguid
+      credentialIdLength,
+      this.credentialId,
+      encodeCbor(coseKey),
+    ]);
+
+    return {
+      id: this.credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: this.clientDataJSON(
+          'webauthn.create',
+          challenge,
+          origin,
+        ),
+        attestationObject: encodeCbor({
+          fmt: 'none',
+          attStmt: {},
+          authData,
+        }).toString('base64url'),
+        transports: ['internal'],
+      },
+    };
+  }
+
+  getAssertion(
+    challenge: string,
+    { origin = ORIGIN, userVerified = true } = {},
+  ) {
+    this.signCount++;
+    const authenticatorData = this.authenticatorDataHeader(
+      userVerified ? 0x05 : 0x01,
+    );
+    const clientDataJSON = this.clientDataJSON(
+      'webauthn.get',
+      challenge,
+      origin,
+    );
+    const signature = sign(
+      'sha256',
+      Buffer.concat([
+        authenticatorData,
+        createHash('sha256')
+          .update(Buffer.from(clientDataJSON, 'base64url'))
+          .digest(),
+      ]),
+      this.privateKey,
+    );
+
+    return {
+      id: this.credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON,
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: Buffer.from(this.userHandle).toString('base64url'),
+      },
+    };
+  }
+
+  private authenticatorDataHeader(flags: number): Buffer {
+    const signCount = Buffer.alloc(4);
+    signCount.writeUInt32BE(this.signCount);
+    return Buffer.concat([
+      createHash('sha256').update(RP_ID).digest(),
+      Buffer.from([flags]),
+      signCount,
+    ]);
+  }
+
+  private clientDataJSON(type: string, challenge: string, origin: string) {
+    return Buffer.from(JSON.stringify({ type, challenge, origin })).toString(
+      'base64url',
+    );
+  }
+}
+
+describe('WebAuthnService', () => {
+  let webAuthnService: WebAuthnService;
+  let credentials: WebAuthnCredential[];
+  const user = {
+    id: 'b8a5c1de-7c2f-4a8e-9d43-1f0e6a3b2c71',
+    email: 'user@test.com',
+  } as User;
+  const otherUser = {
+    id: '4e1f2a9b-3c5d-4e6f-8a7b-9c0d1e2f3a4b',
+    email: 'other@test.com',
+  } as User;
+
+  beforeEach(async () => {
+    credentials = [];
+
+    // In memory stand in for the credential repository
+    const credentialRepository = {
+      create: (data: any) => ({ ...data }),
+      save: async (credential: any) => {
+        const saved = {
+          ...credential,
+          id: randomBytes(8).toString('hex'),
+          user: [user, otherUser].find(
+            (item) => item.id === credential.user.id,
+          ),
+          lastUsedAt: null,
+          createdAt: new Date(),
+        };
+        credentials.push(saved);
+        return saved;
+      },
+      findBy: async ({ user: { id } }) =>
+        credentials.filter((credential) => credential.user.id === id),
+      existsBy: async ({ credentialId }) =>
+        credentials.some(
+          (credential) => credential.credentialId === credentialId,
+        ),
+      findOne: async ({ where: { credentialId } }) =>
+        credentials.find(
+          (credential) => credential.credentialId === credentialId,
+        ) ?? null,
+      update: async (id: string, data: any) => {
+        Object.assign(
+          credentials.find((credential) => credential.id === id),
+          data,
+        );
+        return { affected: 1 };
+      },
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        WebAuthnService,
+        {
+          provide: getRepositoryToken(WebAuthnCredential),
+          useValue: credentialRepository,
+        },
+        { provide: CACHE_MANAGER, useValue: await caching('memory') },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              ({ WEBAUTHN_RP_ID: RP_ID, WEBAUTHN_ORIGINS: ORIGIN })[key],
+          },
+        },
+      ],
+    }).compile();
+
+    webAuthnService = module.get(WebAuthnService);
+  });
+
+  async function registerPasskey(owner: User) {
+    const authenticator = new SoftwareAuthenticator(owner.id);
+    const { challenge } =
+      await webAuthnService.generateRegistrationOptions(owner);
+    await webAuthnService.verifyRegistration(owner, {
+      name: 'Test key',
+      credential: authenticator.createCredential(challenge),
+    });
+    return authenticator;
+  }
+
+  it('registers a passkey and logs in with it', async () => {
+    const authenticator = await registerPasskey(user);
+    expect(credentials).toHaveLength(1);
+
+    const { challenge, allowCredentials } =
+      await webAuthnService.generateAuthenticationOptions();
+    expect(allowCredentials).toEqual([]);
+
+    const loggedIn = await webAuthnService.verifyAuthentication(
+      authenticator.getAssertion(challenge),
+    );
+    expect(loggedIn.id).toEqual(user.id);
+    expect(credentials[0].signCount).toEqual(1);
+  });
+
+  it('does not accept a challenge twice', async () => {
+    const authenticator = await registerPasskey(user);
+    const { challenge } = await webAuthnService.generateAuthenticationOptions();
+
+    await webAuthnService.verifyAuthentication(
+      authenticator.getAssertion(challenge),
+    );
+    await expect(
+      webAuthnService.verifyAuthentication(
+        authenticator.getAssertion(challenge),
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('rejects assertions made for another origin', async () => {
+    const authenticator = await registerPasskey(user);
+    const { challenge } = await webAuthnService.generateAuthenticationOptions();
+
+    await expect(
+      webAuthnService.verifyAuthentication(
+        authenticator.getAssertion(challenge, { origin: 'https://evil.test' }),
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('requires user verification for passwordless login', async () => {
+    const authenticator = await registerPasskey(user);
+    const { challenge } = await webAuthnService.generateAuthenticationOptions();
+
+    await expect(
+      webAuthnService.verifyAuthentication(
+        authenticator.getAssertion(challenge, { userVerified: false }),
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('rejects a sign count that did not go up', async () => {
+    const authenticator = await registerPasskey(user);
+    let { challenge } = await webAuthnService.generateAuthenticationOptions();
+    await webAuthnService.verifyAuthentication(
+      authenticator.getAssertion(challenge),
+    );
+
+    // A cloned authenticator replays an old counter
+    authenticator.signCount = 0;
+    ({ challenge } = await webAuthnService.generateAuthenticationOptions());
+    await expect(
+      webAuthnService.verifyAuthentication(
+        authenticator.getAssertion(challenge),
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('rejects a tampered signature', async () => {
+    const authenticator = await registerPasskey(user);
+    const { challenge } = await webAuthnService.generateAuthenticationOptions();
+    const assertion = authenticator.getAssertion(challenge);
+    assertion.response.signature =
+      authenticator.getAssertion(challenge).response.signature;
+    assertion.response.authenticatorData = Buffer.from(
+      assertion.response.authenticatorData,
+      'base64url',
+    )
+      .fill(0xff, 33)
+      .toString('base64url');
+
+    await expect(
+      webAuthnService.verifyAuthentication(assertion),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('only accepts the passkeys of the user as second factor', async () => {
+    await registerPasskey(user);
+    const otherAuthenticator = await registerPasskey(otherUser);
+
+    const { challenge, allowCredentials } =
+      await webAuthnService.generateAuthenticationOptions(user);
+    expect(allowCredentials).toHaveLength(1);
+
+    await expect(
+      webAuthnService.verifyAuthentication(
+        otherAuthenticator.getAssertion(challenge),
+        user,
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,374 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { Repository } from 'typeorm';
+import { createHash, createPublicKey, randomBytes, verify } from 'crypto';
+import { WebAuthnCredential } from './entities/webauthn-credential.entity';
+import { User } from '../users/entities/user.entity';
+import {
+  AuthenticationCredentialDto,
+  RegisterWebAuthnCredentialDto,
+  WebAuthnCredentialDto,
+} from './dtos/webauthn.dto';
+import {
+  CoseAlgorithm,
+  coseKeyToPublicKey,
+  decodeCbor,
+  parseAuthenticatorData,
+} from './webauthn-parser';
+
+// Time the user has to answer the browser prompt
+const CEREMONY_TIMEOUT = 5 * 60 * 1000;
+
+type Ceremony = {
+  type: 'webauthn.create' | 'webauthn.get';
+  userId: string | null;
+};
+
+type ClientData = {
+  type: string;
+  challenge: string;
+  origin: string;
+};
+
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+  private readonly rpId: string;
+  private readonly rpName: string;
+  private readonly origins: string[];
+
+  constructor(
+    @InjectRepository(WebAuthnCredential)
+    private readonly credentialRepository: Repository<WebAuthnCredential>,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    private readonly configService: ConfigService,
+  ) {
+    this.rpId = this.configService.get<string>('WEBAUTHN_RP_ID') || 'localhost';
+    this.rpName =
+      this.configService.get<string>('WEBAUTHN_RP_NAME') || 'NestJS Auth';
+    this.origins = (
+      this.configService.get<string>('WEBAUTHN_ORIGINS') ||
+      'http://localhost:3000'
+    )
+      .split(',')
+      .map((origin) => origin.trim());
+  }
+
+  async generateRegistrationOptions(user: User) {
+    const credentials = await this.credentialRepository.findBy({
+      user: { id: user.id },
+    });
+
+    return {
+      challenge: await this.createChallenge({
+        type: 'webauthn.create',
+        userId: user.id,
+      }),
+      rp: { id: this.rpId, name: this.rpName },
+      user: {
+        id: Buffer.from(user.id).toString('base64url'),
+        name: user.email,
+        displayName: user.email,
+      },
+      pubKeyCredParams: [
+        CoseAlgorithm.ES256,
+        CoseAlgorithm.EdDSA,
+        CoseAlgorithm.RS256,
+      ].map((alg) => ({ type: 'public-key', alg })),
+      timeout: CEREMONY_TIMEOUT,
+      // Only the key matters to us, attestation would just reveal the authenticator model
+      attestation: 'none',
+      // The same authenticator should not be registered twice
+      excludeCredentials: credentials.map((credential) => ({
+        type: 'public-key',
+        id: credential.credentialId,
+        transports: credential.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred',
+      },
+    };
+  }
+
+  async verifyRegistration(
+    user: User,
+    body: RegisterWebAuthnCredentialDto,
+  ): Promise<WebAuthnCredentialDto> {
+    const { credential } = body;
+    const clientDataJSON = Buffer.from(
+      credential.response.clientDataJSON,
+      'base64url',
+    );
+    await this.verifyClientData(clientDataJSON, 'webauthn.create', user.id);
+
+    let authenticatorData: ReturnType<typeof parseAuthenticatorData>;
+    let key: ReturnType<typeof coseKeyToPublicKey>;
+    try {
+      const attestation = decodeCbor(
+        Buffer.from(credential.response.attestationObject, 'base64url'),
+      ).value as Map<string, any>;
+      authenticatorData = parseAuthenticatorData(attestation.get('authData'));
+      key = coseKeyToPublicKey(authenticatorData.credentialPublicKey);
+    } catch (error) {
+      throw new BadRequestException('Invalid WebAuthn credential.');
+    }
+
+    this.verifyAuthenticatorData(authenticatorData, false);
+    const credentialId = authenticatorData.credentialId.toString('base64url');
+    if (credentialId !== credential.id) {
+      throw new BadRequestException('Invalid WebAuthn credential.');
+    }
+    if (await this.credentialRepository.existsBy({ credentialId })) {
+      throw new BadRequestException('This passkey is already registered.');
+    }
+
+    const saved = await this.credentialRepository.save(
+      this.credentialRepository.create({
+        user: { id: user.id },
+        credentialId,
+        publicKey: key.publicKey
+          .export({ type: 'spki', format: 'pem' })
+          .toString(),
+        algorithm: key.algorithm,
+        signCount: authenticatorData.signCount,
+        transports: credential.response.transports ?? [],
+        backedUp: authenticatorData.backedUp,
+        name: body.name ?? 'Passkey',
+      }),
+    );
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'register-webauthn-credential',
+        userId: user.id,
+        credentialId: saved.id,
+      }),
+    );
+    return this.toDto(saved);
+  }
+
+  // Without a user the browser offers the passkeys it has for this site, the second factor step asks for the user's own
+  async generateAuthenticationOptions(user?: User) {
+    const credentials = user
+      ? await this.credentialRepository.findBy({ user: { id: user.id } })
+      : [];
+    if (user && !credentials.length) {
+      throw new BadRequestException('No passkeys are registered.');
+    }
+
+    return {
+      challenge: await this.createChallenge({
+        type: 'webauthn.get',
+        userId: user?.id ?? null,
+      }),
+      rpId: this.rpId,
+      timeout: CEREMONY_TIMEOUT,
+      // A passkey replaces the password, so it has to check the user too
+      userVerification: user ? 'preferred' : 'required',
+      allowCredentials: credentials.map((credential) => ({
+        type: 'public-key',
+        id: credential.credentialId,
+        transports: credential.transports,
+      })),
+    };
+  }
+
+  // Returns the user the credential belongs to, pass the user when it was already identified by a password
+  async verifyAuthentication(
+    credential: AuthenticationCredentialDto,
+    user?: User,
+  ): Promise<User> {
+    const storedCredential = await this.credentialRepository.findOne({
+      where: { credentialId: credential.id },
+      relations: ['user'],
+    });
+    if (!storedCredential || (user && storedCredential.user.id !== user.id)) {
+      throw new UnauthorizedException('Unknown passkey.');
+    }
+
+    const clientDataJSON = Buffer.from(
+      credential.response.clientDataJSON,
+      'base64url',
+    );
+    await this.verifyClientData(
+      clientDataJSON,
+      'webauthn.get',
+      user?.id ?? null,
+    );
+
+    // Passkeys identify the account on their own, the handle must be the one we gave at registration
+    const { userHandle } = credential.response;
+    if (
+      userHandle &&
+      Buffer.from(userHandle, 'base64url').toString() !==
+        storedCredential.user.id
+    ) {
+      throw new UnauthorizedException('Unknown passkey.');
+    }
+
+    const rawAuthenticatorData = Buffer.from(
+      credential.response.authenticatorData,
+      'base64url',
+    );
+    let authenticatorData: ReturnType<typeof parseAuthenticatorData>;
+    try {
+      authenticatorData = parseAuthenticatorData(rawAuthenticatorData);
+    } catch (error) {
+      throw new UnauthorizedException('Invalid passkey signature.');
+    }
+    this.verifyAuthenticatorData(authenticatorData, !user);
+
+    const signedData = Buffer.concat([
+      rawAuthenticatorData,
+      createHash('sha256').update(clientDataJSON).digest(),
+    ]);
+    if (
+      !this.verifySignature(
+        storedCredential,
+        signedData,
+        Buffer.from(credential.response.signature, 'base64url'),
+      )
+    ) {
+      throw new UnauthorizedException('Invalid passkey signature.');
+    }
+
+    // Authenticators that count must count up, anything else means the key was cloned
+    const storedSignCount = Number(storedCredential.signCount);
+    if (
+      (authenticatorData.signCount || storedSignCount) &&
+      authenticatorData.signCount <= storedSignCount
+    ) {
+      this.logger.warn(
+        JSON.stringify({
+          action: 'webauthn-sign-count-mismatch',
+          userId: storedCredential.user.id,
+          credentialId: storedCredential.id,
+        }),
+      );
+      throw new UnauthorizedException('Invalid passkey signature.');
+    }
+
+    await this.credentialRepository.update(storedCredential.id, {
+      signCount: authenticatorData.signCount,
+      backedUp: authenticatorData.backedUp,
+      lastUsedAt: new Date(),
+    });
+    return storedCredential.user;
+  }
+
+  async findAll(userId: string): Promise<WebAuthnCredentialDto[]> {
+    const credentials = await this.credentialRepository.find({
+      where: { user: { id: userId } },
+      order: { createdAt: 'DESC' },
+    });
+    return credentials.map((credential) => this.toDto(credential));
+  }
+
+  async remove(userId: string, id: string): Promise<boolean> {
+    const { affected } = await this.credentialRepository.delete({
+      id,
+      user: { id: userId },
+    });
+    return affected > 0;
+  }
+
+  private async createChallenge(ceremony: Ceremony): Promise<string> {
+    const challenge = randomBytes(32).toString('base64url');
+    await this.cacheManager.set(
+      `webauthn:challenge:${challenge}`,
+      ceremony,
+      CEREMONY_TIMEOUT,
+    );
+    return challenge;
+  }
+
+  private async verifyClientData(
+    clientDataJSON: Buffer,
+    type: Ceremony['type'],
+    userId: string | null,
+  ): Promise<void> {
+    let clientData: ClientData;
+    try {
+      clientData = JSON.parse(clientDataJSON.toString('utf8'));
+    } catch (error) {
+      throw new BadRequestException('Invalid WebAuthn client data.');
+    }
+
+    // Each challenge is good for one ceremony only
+    const key = `webauthn:challenge:${clientData.challenge}`;
+    const ceremony = await this.cacheManager.get<Ceremony>(key);
+    await this.cacheManager.del(key);
+
+    if (
+      !ceremony ||
+      clientData.type !== type ||
+      ceremony.type !== type ||
+      ceremony.userId !== userId
+    ) {
+      throw new BadRequestException(
+        'The WebAuthn challenge is invalid or has expired.',
+      );
+    }
+    if (!this.origins.includes(clientData.origin)) {
+      throw new BadRequestException('Unexpected WebAuthn origin.');
+    }
+  }
+
+  private verifyAuthenticatorData(
+    authenticatorData: ReturnType<typeof parseAuthenticatorData>,
+    requireUserVerification: boolean,
+  ): void {
+    const expectedRpIdHash = createHash('sha256').update(this.rpId).digest();
+    if (!authenticatorData.rpIdHash.equals(expectedRpIdHash)) {
+      throw new BadRequestException('Unexpected WebAuthn relying party.');
+    }
+    if (!authenticatorData.userPresent) {
+      throw new UnauthorizedException('User presence is required.');
+    }
+    if (requireUserVerification && !authenticatorData.userVerified) {
+      throw new UnauthorizedException('User verification is required.');
+    }
+  }
+
+  private verifySignature(
+    credential: WebAuthnCredential,
+    data: Buffer,
+    signature: Buffer,
+  ): boolean {
+    const publicKey = createPublicKey(credential.publicKey);
+    try {
+      // EdDSA signs the data itself, ES256 signatures come DER encoded
+      return credential.algorithm === CoseAlgorithm.EdDSA
+        ? verify(null, data, publicKey, signature)
+        : verify(
+            'sha256',
+            data,
+            { key: publicKey, dsaEncoding: 'der' },
+            signature,
+          );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private toDto(credential: WebAuthnCredential): WebAuthnCredentialDto {
+    return {
+      id: credential.id,
+      name: credential.name,
+      transports: credential.transports,
+      backedUp: credential.backedUp,
+      lastUsedAt: credential.lastUsedAt,
+      createdAt: credential.createdAt,
+    };
+  }
+}
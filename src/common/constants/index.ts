@@ -6,6 +6,19 @@ export const UPLOAD_RATE_LIMIT = 12;
 export const APP_RATE_TTL = 60000;
 export const APP_RATE_LIMIT = 60;
 
+// Token lifetimes (seconds)
+export const ACCESS_TOKEN_TTL = 15 * 24 * 60 * 60;
+export const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60;
+export const ID_TOKEN_TTL = 60 * 60;
+export const CLIENT_ACCESS_TOKEN_TTL = 60 * 60;
+export const AUTHORIZATION_CODE_TTL = 5 * 60;
+
+// How long after signing in or confirming their identity a user can make sensitive changes (seconds)
+export const REAUTHENTICATION_MAX_AGE = 5 * 60;
+
+// Prefix of every route except the well-known documents
+export const API_PREFIX = 'api/v1';
+
 // Port
 export const PORT = 5000;
 export const commonErrorResponses = {
@@ -103,4 +116,35 @@ export const commonErrorResponses = {
       },
     },
   },
+  passwordPolicy: {
+    description:
+      'Returns when input is invalid, or when the password does not meet the password policy. Every broken rule is listed in violations.',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: 'The password does not meet the password policy.',
+        error: 'password_policy_violation',
+        violations: [
+          { code: 'too_short', message: 'Use at least 8 characters.' },
+          {
+            code: 'breached',
+            message:
+              'This password has appeared in a data breach. Please choose another one.',
+          },
+        ],
+      },
+    },
+  },
+  reauthenticationRequired: {
+    description:
+      'Returns when there is no valid token, or when the user has not signed in or confirmed their identity at /auth/reauthenticate in the last few minutes.',
+    schema: {
+      example: {
+        statusCode: 401,
+        message: 'Please confirm your identity to continue.',
+        error: 'insufficient_user_authentication',
+        maxAge: 300,
+      },
+    },
+  },
 };
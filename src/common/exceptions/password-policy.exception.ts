@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export type PasswordPolicyViolation = {
+  code: string;
+  message: string;
+};
+
+// Lists every rule the password broke, so clients can show them all at once
+export class PasswordPolicyException extends HttpException {
+  constructor(violations: PasswordPolicyViolation[]) {
+    super(
+      {
+        statusCode: HttpStatus.BAD_REQUEST,
+        message: 'The password does not meet the password policy.',
+        error: 'password_policy_violation',
+        violations,
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+// The error code follows RFC 9470, clients send the user to /auth/reauthenticate and retry
+export class ReauthenticationRequiredException extends HttpException {
+  constructor(
+    maxAge: number,
+    message = 'Please confirm your identity to continue.',
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.UNAUTHORIZED,
+        message,
+        error: 'insufficient_user_authentication',
+        maxAge,
+      },
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+}
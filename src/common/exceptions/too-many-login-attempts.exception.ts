@@ -0,0 +1,16 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+// retryAfter tells the client how many seconds to wait before the next attempt
+export class TooManyLoginAttemptsException extends HttpException {
+  constructor(message: string, retryAfter: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message,
+        error: 'Too Many Requests',
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -4,14 +4,13 @@ import {
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
-import { Observable } from 'rxjs';
 import { UsersService } from '../users/users.service';
+import { TwoFactorAuthenticationService } from '../auth/two-factor.service';
 
 @Injectable()
 export class TwoFactorAuthGuard implements CanActivate {
   constructor(
-    private jwtService: JwtService,
+    private twoFactorAuthenticationService: TwoFactorAuthenticationService,
     private usersService: UsersService,
   ) {}
 
@@ -23,13 +22,14 @@ export class TwoFactorAuthGuard implements CanActivate {
       throw new UnauthorizedException('Temporary token is required.');
     }
 
-    try {
-      const decoded = this.jwtService.verify(tempAuthToken);
-      request.user = await this.validateUser(decoded.userId, context);
-      return true;
-    } catch (error) {
+    // Only temporary tokens with a user, other tokens signed with the same secret are refused
+    const userId =
+      this.twoFactorAuthenticationService.verifyTempAuthToken(tempAuthToken);
+    if (!userId) {
       throw new UnauthorizedException('Invalid or expired temporary token.');
     }
+    request.user = await this.validateUser(userId, context);
+    return true;
   }
 
   async validateUser(userId: string, context: ExecutionContext): Promise<any> {
@@ -1,12 +1,39 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { SCOPES_KEY } from 'src/oauth/decorators/scopes.decorator';
 
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
+  constructor(private reflector: Reflector) {
+    super();
+  }
+
   handleRequest(err, user, info, context) {
     if (err || !user) {
       throw err || new UnauthorizedException();
     }
+
+    // Tokens issued to an application over OAuth, and API keys, only pass routes that ask for scopes they were granted
+    if (user.clientId || user.apiKeyId) {
+      const requiredScopes = this.reflector.getAllAndOverride<string[]>(
+        SCOPES_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+      if (
+        !requiredScopes ||
+        !requiredScopes.every((scope) => user.scopes.includes(scope))
+      ) {
+        throw new ForbiddenException(
+          'This token does not grant access to this resource.',
+        );
+      }
+    }
+
     context.switchToHttp().getRequest().user = user;
     return user;
   }
@@ -0,0 +1,20 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { REAUTHENTICATION_MAX_AGE } from 'src/common/constants';
+import { ReauthenticationRequiredException } from 'src/common/exceptions/reauthentication-required.exception';
+
+// Goes after JwtAuthGuard, lets through only users who signed in or confirmed their identity a few minutes ago
+@Injectable()
+export class RecentAuthGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest();
+
+    // API keys, service accounts and OAuth tokens carry no auth_time and never pass
+    if (
+      !user?.authTime ||
+      Date.now() / 1000 - user.authTime > REAUTHENTICATION_MAX_AGE
+    ) {
+      throw new ReauthenticationRequiredException(REAUTHENTICATION_MAX_AGE);
+    }
+    return true;
+  }
+}
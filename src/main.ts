@@ -1,14 +1,20 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import * as cookieParser from 'cookie-parser';
 import { AllExceptionsFilter } from './common/exceptions/exception-filter';
 import { ValidationPipe } from '@nestjs/common';
 import 'reflect-metadata';
+import { API_PREFIX } from './common/constants';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  app.setGlobalPrefix('api/v1');
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  // Client IPs come from X-Forwarded-For only when it was set by these proxies
+  app.set('trust proxy', trustProxy(app.get(ConfigService)));
+  // Well-known documents are looked up at fixed paths by other services
+  app.setGlobalPrefix(API_PREFIX, { exclude: ['.well-known/(.*)'] });
   app.enableCors();
   app.use(cookieParser());
   app.useGlobalFilters(new AllExceptionsFilter());
@@ -35,4 +41,12 @@ async function bootstrap() {
 
   await app.listen(4000);
 }
+
+// A number of hops, or a comma separated list of addresses and subnets
+function trustProxy(configService: ConfigService): number | string | false {
+  const value = configService.get<string>('TRUST_PROXY')?.trim();
+  if (!value) return false;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
 bootstrap();
@@ -74,4 +74,236 @@ export class EmailService {
       );
     }
   }
+
+  async sendRecoveryCodeUsedEmail(
+    email: string,
+    remaining: number,
+  ): Promise<{ message: string }> {
+    const mailOptions = {
+      from: this.configService.get<string>('EMAIL_FROM'),
+      to: email,
+      subject: 'A recovery code was used to sign in',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <style>
+                body {
+                    font-family: Arial, sans-serif;
+                    background-color: #f4f4f4;
+                    margin: 0;
+                    padding: 20px;
+                }
+                .email-container {
+                    background-color: #ffffff;
+                    max-width: 600px;
+                    margin: 0 auto;
+                    padding: 20px;
+                    text-align: center;
+                    border-radius: 8px;
+                    box-shadow: 0 0 10px rgba(0,0,0,0.1);
+                }
+            </style>
+        </head>
+        <body>
+            <div class="email-container">
+                <h1>Recovery code used</h1>
+                <p>One of your two-factor recovery codes was just used to sign in to your account. You have ${remaining} unused codes left.</p>
+                <p>If this was not you, change your password and generate new recovery codes right away.</p>
+            </div>
+        </body>
+        </html>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      return { message: 'Success: recovery code email was sent' };
+    } catch (error) {
+      console.error('EmailService Error:', error);
+      throw new HttpException(
+        'Could not send recovery code email',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  async sendMagicLinkEmail(
+    email: string,
+    link: string,
+  ): Promise<{ message: string }> {
+    const mailOptions = {
+      from: this.configService.get<string>('EMAIL_FROM'),
+      to: email,
+      subject: 'Your sign-in link',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <style>
+                body {
+                    font-family: Arial, sans-serif;
+                    background-color: #f4f4f4;
+                    margin: 0;
+                    padding: 20px;
+                }
+                .email-container {
+                    background-color: #ffffff;
+                    max-width: 600px;
+                    margin: 0 auto;
+                    padding: 20px;
+                    text-align: center;
+                    border-radius: 8px;
+                    box-shadow: 0 0 10px rgba(0,0,0,0.1);
+                }
+                .sign-in-link {
+                    display: inline-block;
+                    margin: 20px 0;
+                    padding: 12px 24px;
+                    background-color: #333;
+                    color: #ffffff;
+                    text-decoration: none;
+                    border-radius: 4px;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="email-container">
+                <h1>Sign in</h1>
+                <a class="sign-in-link" href="${link}">Sign in to your account</a>
+                <p>The link works once, for 15 minutes, and only in the browser you requested it from.</p>
+                <p>If you did not ask to sign in, you can ignore this email.</p>
+            </div>
+        </body>
+        </html>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      return { message: 'Success: sign-in link email was sent' };
+    } catch (error) {
+      console.error('EmailService Error:', error);
+      throw new HttpException(
+        'Could not send sign-in link email',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  async sendPasswordResetEmail(
+    email: string,
+    link: string,
+  ): Promise<{ message: string }> {
+    const mailOptions = {
+      from: this.configService.get<string>('EMAIL_FROM'),
+      to: email,
+      subject: 'Reset your password',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <style>
+                body {
+                    font-family: Arial, sans-serif;
+                    background-color: #f4f4f4;
+                    margin: 0;
+                    padding: 20px;
+                }
+                .email-container {
+                    background-color: #ffffff;
+                    max-width: 600px;
+                    margin: 0 auto;
+                    padding: 20px;
+                    text-align: center;
+                    border-radius: 8px;
+                    box-shadow: 0 0 10px rgba(0,0,0,0.1);
+                }
+                .reset-link {
+                    display: inline-block;
+                    margin: 20px 0;
+                    padding: 12px 24px;
+                    background-color: #333;
+                    color: #ffffff;
+                    text-decoration: none;
+                    border-radius: 4px;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="email-container">
+                <h1>Reset your password</h1>
+                <a class="reset-link" href="${link}">Choose a new password</a>
+                <p>The link works once, for 1 hour. Resetting your password signs you out on all your devices.</p>
+                <p>If you did not ask to reset your password, you can ignore this email.</p>
+            </div>
+        </body>
+        </html>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      return { message: 'Success: password reset email was sent' };
+    } catch (error) {
+      console.error('EmailService Error:', error);
+      throw new HttpException(
+        'Could not send password reset email',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  async sendAccountLockedEmail(
+    email: string,
+    lockedUntil: Date,
+  ): Promise<{ message: string }> {
+    const mailOptions = {
+      from: this.configService.get<string>('EMAIL_FROM'),
+      to: email,
+      subject: 'Your account has been temporarily locked',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <style>
+                body {
+                    font-family: Arial, sans-serif;
+                    background-color: #f4f4f4;
+                    margin: 0;
+                    padding: 20px;
+                }
+                .email-container {
+                    background-color: #ffffff;
+                    max-width: 600px;
+                    margin: 0 auto;
+                    padding: 20px;
+                    text-align: center;
+                    border-radius: 8px;
+                    box-shadow: 0 0 10px rgba(0,0,0,0.1);
+                }
+            </style>
+        </head>
+        <body>
+            <div class="email-container">
+                <h1>Account locked</h1>
+                <p>There were too many failed attempts to sign in to your account, so it is locked until ${lockedUntil.toUTCString()}.</p>
+                <p>If this was not you, someone may be trying to guess your password. Consider changing it once you can sign in again.</p>
+            </div>
+        </body>
+        </html>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      return { message: 'Success: account locked email was sent' };
+    } catch (error) {
+      console.error('EmailService Error:', error);
+      throw new HttpException(
+        'Could not send account locked email',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 }
@@ -1,12 +1,30 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpModule, HttpService } from '@nestjs/axios';
 import { NotificationsService } from './notifications.service';
 import { NotificationsController } from './notifications.controller';
 import { EmailService } from './email.service';
 import { SmsService } from './sms.service';
+import { SmsProvider } from './sms-providers/sms-provider';
+import { TwilioSmsProvider } from './sms-providers/twilio-sms.provider';
+import { LocalSmsProvider } from './sms-providers/local-sms.provider';
 
 @Module({
+  imports: [HttpModule],
   controllers: [NotificationsController],
-  providers: [NotificationsService, EmailService, SmsService],
+  providers: [
+    NotificationsService,
+    EmailService,
+    SmsService,
+    {
+      provide: SmsProvider,
+      useFactory: (configService: ConfigService, httpService: HttpService) =>
+        configService.get<string>('SMS_PROVIDER') === 'twilio'
+          ? new TwilioSmsProvider(configService, httpService)
+          : new LocalSmsProvider(configService),
+      inject: [ConfigService, HttpService],
+    },
+  ],
   exports: [NotificationsService, EmailService, SmsService],
 })
 export class NotificationsModule {}
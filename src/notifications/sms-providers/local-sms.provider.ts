@@ -0,0 +1,28 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { appendFile } from 'fs/promises';
+import { SmsProvider } from './sms-provider';
+
+// For development and tests: prints the message, and appends it to SMS_OUTBOX_FILE when set
+export class LocalSmsProvider extends SmsProvider {
+  private readonly logger = new Logger(LocalSmsProvider.name);
+  private readonly outboxFile: string | undefined;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.outboxFile = configService.get<string>('SMS_OUTBOX_FILE');
+  }
+
+  async send(phoneNumber: string, message: string): Promise<void> {
+    this.logger.log(
+      JSON.stringify({ action: 'send-sms', phoneNumber, message }),
+    );
+
+    if (this.outboxFile) {
+      await appendFile(
+        this.outboxFile,
+        `${JSON.stringify({ phoneNumber, message, sentAt: new Date() })}\n`,
+      );
+    }
+  }
+}
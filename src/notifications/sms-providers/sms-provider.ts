@@ -0,0 +1,4 @@
+// Implemented by every SMS gateway adapter, SmsService only talks to this
+export abstract class SmsProvider {
+  abstract send(phoneNumber: string, message: string): Promise<void>;
+}
@@ -0,0 +1,51 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { SmsProvider } from './sms-provider';
+
+// Sends through the Twilio Messages REST API, or any gateway that speaks the same protocol
+export class TwilioSmsProvider extends SmsProvider {
+  private readonly logger = new Logger(TwilioSmsProvider.name);
+  private readonly baseUrl: string;
+  private readonly accountSid: string;
+  private readonly authToken: string;
+  private readonly from: string;
+
+  constructor(
+    configService: ConfigService,
+    private readonly httpService: HttpService,
+  ) {
+    super();
+    this.baseUrl =
+      configService.get<string>('TWILIO_API_URL') || 'https://api.twilio.com';
+    this.accountSid = configService.get<string>('TWILIO_ACCOUNT_SID');
+    this.authToken = configService.get<string>('TWILIO_AUTH_TOKEN');
+    this.from = configService.get<string>('TWILIO_FROM_NUMBER');
+  }
+
+  async send(phoneNumber: string, message: string): Promise<void> {
+    const { data } = await firstValueFrom(
+      this.httpService.post(
+        `${this.baseUrl}/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+        new URLSearchParams({
+          To: phoneNumber,
+          From: this.from,
+          Body: message,
+        }),
+        {
+          auth: { username: this.accountSid, password: this.authToken },
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        },
+      ),
+    );
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'send-sms',
+        provider: 'twilio',
+        sid: data?.sid,
+      }),
+    );
+  }
+}
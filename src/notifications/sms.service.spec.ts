@@ -0,0 +1,62 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HttpException } from '@nestjs/common';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SmsService } from './sms.service';
+import { SmsProvider } from './sms-providers/sms-provider';
+import { LocalSmsProvider } from './sms-providers/local-sms.provider';
+
+describe('SmsService', () => {
+  let directory: string;
+  let outboxFile: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sms-'));
+    outboxFile = join(directory, 'outbox.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function createService(provider: SmsProvider) {
+    const module = await Test.createTestingModule({
+      providers: [SmsService, { provide: SmsProvider, useValue: provider }],
+    }).compile();
+    return module.get(SmsService);
+  }
+
+  it('writes codes to the outbox file with the local provider', async () => {
+    const smsService = await createService(
+      new LocalSmsProvider({
+        get: () => outboxFile,
+      } as unknown as ConfigService),
+    );
+
+    await smsService.sendOtpSms('+15550000001', '123456');
+    await smsService.sendOtpSms('+15550000002', '654321');
+
+    const messages = (await readFile(outboxFile, 'utf8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(messages).toHaveLength(2);
+    expect(messages[0].phoneNumber).toEqual('+15550000001');
+    expect(messages[0].message).toContain('123456');
+  });
+
+  it('reports provider failures as an HTTP error', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const smsService = await createService({
+      send: async () => {
+        throw new Error('gateway down');
+      },
+    });
+
+    await expect(smsService.sendSMS('+15550000001', 'hello')).rejects.toThrow(
+      HttpException,
+    );
+  });
+});
@@ -1,8 +1,26 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, HttpStatus, HttpException } from '@nestjs/common';
+import { SmsProvider } from './sms-providers/sms-provider';
 
 @Injectable()
 export class SmsService {
+  constructor(private readonly smsProvider: SmsProvider) {}
+
   async sendSMS(phoneNumber: string, message: string): Promise<void> {
-    // some logic to send sms to phoneNumber
+    try {
+      await this.smsProvider.send(phoneNumber, message);
+    } catch (error) {
+      console.error('SmsService Error:', error);
+      throw new HttpException(
+        'Could not send SMS',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  async sendOtpSms(phoneNumber: string, otp: string): Promise<void> {
+    await this.sendSMS(
+      phoneNumber,
+      `${otp} is your verification code. Do not share it with anyone.`,
+    );
   }
 }
@@ -0,0 +1,14 @@
+// Who is behind a request authenticated with a client credentials token, used in place of a User
+export class ClientPrincipal {
+  constructor(
+    readonly clientId: string,
+    readonly name: string,
+    readonly scopes: string[],
+  ) {}
+}
+
+export function isClientPrincipal(
+  principal: unknown,
+): principal is ClientPrincipal {
+  return principal instanceof ClientPrincipal;
+}
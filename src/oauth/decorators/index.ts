@@ -0,0 +1,201 @@
+import { UseGuards, applyDecorators } from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiFoundResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import { AdminGuard } from 'src/guards/admin.guard';
+import { commonErrorResponses } from 'src/common/constants';
+import { AuthorizeResponseDto } from '../dtos/authorize.dto';
+import { TokenResponseDto } from '../dtos/token.dto';
+import { IntrospectionResponseDto } from '../dtos/introspection.dto';
+import {
+  CreatedOAuthClientDto,
+  OAuthClientDto,
+} from '../dtos/oauth-client.dto';
+import { Scopes } from './scopes.decorator';
+import { OAuthScope } from '../enums';
+
+const oauthErrorResponse = {
+  description: 'Returns an OAuth error when the request cannot be served.',
+  schema: {
+    example: {
+      error: 'invalid_request',
+      error_description: 'redirect_uri is not registered for this client.',
+    },
+  },
+};
+
+const invalidClientResponse = {
+  description: 'Returns when client authentication fails.',
+  schema: {
+    example: {
+      error: 'invalid_client',
+      error_description: 'Client authentication failed.',
+    },
+  },
+};
+
+export function AuthorizeRedirectDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Start an authorization request',
+      description:
+        'Entry point for applications signing users in through this service. The request is checked and the browser is redirected to the login UI with the same parameters, or back to the client with an error. Only the code flow with PKCE (S256) is supported.',
+    }),
+    ApiFoundResponse({
+      description: 'Redirects to the login UI or back to the client',
+    }),
+    ApiBadRequestResponse(oauthErrorResponse),
+  );
+}
+
+export function AuthorizeDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Complete an authorization request',
+      description:
+        'Called by the login UI once the user has logged in with the regular login (and 2FA) endpoints. Send the parameters of the authorization request, plus approve once the user has answered the consent screen. Returns the URL to send the browser to, or asks for consent when the user has not approved these scopes for the client yet.',
+    }),
+    ApiOkResponse({
+      description: 'Returns the redirect URL or that consent is required',
+      type: AuthorizeResponseDto,
+    }),
+    ApiBadRequestResponse(oauthErrorResponse),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+  );
+}
+
+export function TokenDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Exchange a grant for tokens',
+      description:
+        'Exchanges an authorization code (with its PKCE verifier) or a refresh token for an access token, an ID token when openid was granted and a refresh token when offline_access was granted. Confidential clients authenticate with HTTP Basic or client_secret in the body.',
+    }),
+    ApiConsumes('application/x-www-form-urlencoded', 'application/json'),
+    ApiOkResponse({
+      description: 'Returns the issued tokens',
+      type: TokenResponseDto,
+    }),
+    ApiBadRequestResponse(oauthErrorResponse),
+    ApiUnauthorizedResponse(invalidClientResponse),
+  );
+}
+
+export function IntrospectDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Check whether a token is still valid',
+      description:
+        'Tells resource servers whether an access token, refresh token or API key can still be used and who it was issued for. Bans, password changes and revoked sessions make a token inactive. Only confidential clients can call this endpoint, with HTTP Basic or client_secret in the body.',
+    }),
+    ApiConsumes('application/x-www-form-urlencoded', 'application/json'),
+    ApiOkResponse({
+      description: 'Returns active: false for unknown or dead tokens',
+      type: IntrospectionResponseDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(invalidClientResponse),
+  );
+}
+
+export function RevokeDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Revoke a token',
+      description:
+        'Lets a client end the grant behind an access or refresh token it was issued, which signs the user out of the session the grant started. Unknown tokens and tokens of other clients are ignored, so the response is always 200 once the client is authenticated.',
+    }),
+    ApiConsumes('application/x-www-form-urlencoded', 'application/json'),
+    ApiOkResponse({ description: 'The token is no longer valid' }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(invalidClientResponse),
+  );
+}
+
+export function UserInfoDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Claims about the signed in user',
+      description:
+        'Returns the claims of the user the access token was issued for, limited to the granted scopes. Requires an access token from the token endpoint with the openid scope.',
+    }),
+    ApiOkResponse({
+      description: 'Returns the claims of the user',
+      schema: {
+        example: {
+          sub: '02302d6e-4eea-403d-a466-6ba902b004fb',
+          email: 'example@email.com',
+          email_verified: true,
+        },
+      },
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiForbiddenResponse(commonErrorResponses.forbidden),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard),
+    Scopes(OAuthScope.OpenId),
+  );
+}
+
+export function CreateOAuthClientDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Register an OAuth client : ADMIN',
+      description:
+        'Registers an application that can sign users in through this service. The client secret is only returned in this response.',
+    }),
+    ApiCreatedResponse({
+      description: 'Returns the registered client',
+      type: CreatedOAuthClientDto,
+    }),
+    ApiBadRequestResponse(commonErrorResponses.badRequest),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiForbiddenResponse(commonErrorResponses.forbidden),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, AdminGuard),
+  );
+}
+
+export function GetOAuthClientsDecorator() {
+  return applyDecorators(
+    ApiOperation({ summary: 'List OAuth clients : ADMIN' }),
+    ApiOkResponse({
+      description: 'Returns the registered clients',
+      type: [OAuthClientDto],
+    }),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiForbiddenResponse(commonErrorResponses.forbidden),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, AdminGuard),
+  );
+}
+
+export function DeleteOAuthClientDecorator() {
+  return applyDecorators(
+    ApiOperation({
+      summary: 'Delete an OAuth client : ADMIN',
+      description:
+        'Deletes the client with its pending codes and consents. Sessions already granted to it stay until they are revoked or expire.',
+    }),
+    ApiParam({ name: 'clientId', description: 'Client id of the client' }),
+    ApiOkResponse({ description: 'The client has been deleted' }),
+    ApiNotFoundResponse(commonErrorResponses.notFound),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiForbiddenResponse(commonErrorResponses.forbidden),
+    ApiBearerAuth(),
+    UseGuards(JwtAuthGuard, AdminGuard),
+  );
+}
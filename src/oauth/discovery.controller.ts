@@ -0,0 +1,20 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { OAuthService } from './oauth.service';
+
+@ApiTags('oauth')
+@Controller('.well-known')
+export class DiscoveryController {
+  constructor(private readonly oauthService: OAuthService) {}
+
+  @Get('openid-configuration')
+  @ApiOperation({
+    summary: 'OpenID Connect discovery document',
+    description:
+      'Lists the endpoints, scopes and algorithms of this provider so OpenID Connect libraries can configure themselves from the issuer URL alone.',
+  })
+  @ApiOkResponse({ description: 'Returns the provider metadata' })
+  getConfiguration() {
+    return this.oauthService.getDiscoveryDocument();
+  }
+}
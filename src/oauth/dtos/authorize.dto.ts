@@ -0,0 +1,97 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+
+// Parameters of the authorization request, the names follow RFC 6749 and OpenID Connect
+export class AuthorizeQueryDto {
+  @ApiProperty({ description: 'Must be code', example: 'code' })
+  @IsOptional()
+  @IsString()
+  response_type: string;
+
+  @ApiProperty({
+    description: 'Client id of the registered application',
+    example: 'Zq3mC0vJd1sVd6lHn5mUxA',
+  })
+  @IsString()
+  client_id: string;
+
+  @ApiProperty({
+    description: 'One of the redirect URIs registered for the client',
+    example: 'https://app.example.com/callback',
+  })
+  @IsString()
+  redirect_uri: string;
+
+  @ApiProperty({
+    description: 'Space separated list of requested scopes',
+    example: 'openid email',
+  })
+  @IsOptional()
+  @IsString()
+  scope: string;
+
+  @ApiPropertyOptional({
+    description: 'Opaque value returned to the client unchanged',
+  })
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @ApiPropertyOptional({
+    description: 'Value copied into the ID token to prevent replay',
+  })
+  @IsOptional()
+  @IsString()
+  nonce?: string;
+
+  @ApiProperty({
+    description: 'BASE64URL(SHA256(code_verifier)), PKCE is required',
+    example: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+  })
+  @IsOptional()
+  @IsString()
+  code_challenge: string;
+
+  @ApiProperty({ description: 'Must be S256', example: 'S256' })
+  @IsOptional()
+  @IsString()
+  code_challenge_method: string;
+}
+
+export class AuthorizeDto extends AuthorizeQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'The answer of the user on the consent screen. Leave out to find out whether consent is needed.',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  approve?: boolean;
+}
+
+export class AuthorizeResponseDto {
+  @ApiPropertyOptional({
+    description:
+      'Where to send the browser next, carries the code or the error for the client',
+    example: 'https://app.example.com/callback?code=3Xb...&state=af0ifjsldkj',
+  })
+  redirectUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the user has to approve the requested scopes first',
+    example: true,
+  })
+  consentRequired?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Name of the application asking for access',
+    example: 'Example App',
+  })
+  clientName?: string;
+
+  @ApiPropertyOptional({
+    description: 'The scopes the user is asked to approve',
+    example: ['openid', 'email'],
+  })
+  scopes?: string[];
+}
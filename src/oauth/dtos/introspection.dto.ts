@@ -0,0 +1,60 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class TokenHintRequestDto {
+  @ApiProperty({ description: 'The access token, refresh token or API key' })
+  @IsString()
+  token: string;
+
+  @ApiPropertyOptional({
+    description: 'access_token or refresh_token, tried first when given',
+  })
+  @IsOptional()
+  @IsString()
+  token_type_hint?: string;
+
+  @ApiPropertyOptional({
+    description: 'Client id, when not sent with HTTP Basic authentication',
+  })
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Client secret, when not sent with HTTP Basic authentication',
+  })
+  @IsOptional()
+  @IsString()
+  client_secret?: string;
+}
+
+export class IntrospectionResponseDto {
+  @ApiProperty({ description: 'Whether the token can still be used' })
+  active: boolean;
+
+  @ApiPropertyOptional({ example: 'access_token' })
+  token_type?: string;
+
+  @ApiPropertyOptional({
+    description: 'User id, or the client id for service account tokens',
+  })
+  sub?: string;
+
+  @ApiPropertyOptional({ description: 'Email of the user' })
+  username?: string;
+
+  @ApiPropertyOptional({ description: 'Client the token was issued to' })
+  client_id?: string;
+
+  @ApiPropertyOptional({ example: 'openid email' })
+  scope?: string;
+
+  @ApiPropertyOptional({ description: 'Expiry as a unix timestamp' })
+  exp?: number;
+
+  @ApiPropertyOptional({ description: 'Issue time as a unix timestamp' })
+  iat?: number;
+
+  @ApiPropertyOptional({ description: 'Session the token belongs to' })
+  sid?: string;
+}
@@ -0,0 +1,103 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  ValidateIf,
+} from 'class-validator';
+import { ApiScope, OAuthGrantType, OAuthScope } from '../enums';
+
+export class CreateOAuthClientDto {
+  @ApiProperty({
+    description: 'Name shown to users on the consent screen',
+    example: 'Example App',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Grants the client may use. Service accounts use client_credentials only.',
+    example: ['authorization_code', 'refresh_token'],
+    default: ['authorization_code', 'refresh_token'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.values(OAuthGrantType), { each: true })
+  grantTypes?: OAuthGrantType[];
+
+  @ApiProperty({
+    description:
+      'Redirect URIs the client may use, matched exactly. Not needed for service accounts.',
+    example: ['https://app.example.com/callback'],
+  })
+  @ValidateIf(
+    (body) =>
+      !body.grantTypes ||
+      body.grantTypes.includes(OAuthGrantType.AuthorizationCode) ||
+      body.redirectUris !== undefined,
+  )
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUrl({ require_tld: false }, { each: true })
+  redirectUris: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Scopes the client may request, defaults to all OpenID Connect scopes',
+    example: ['openid', 'email'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn([...Object.values(OAuthScope), ...Object.values(ApiScope)], {
+    each: true,
+  })
+  allowedScopes?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Whether the client can keep a secret. Set to false for SPAs and mobile apps.',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  confidential?: boolean;
+}
+
+export class OAuthClientDto {
+  @ApiProperty({ example: 'Zq3mC0vJd1sVd6lHn5mUxA' })
+  clientId: string;
+
+  @ApiProperty({ example: 'Example App' })
+  name: string;
+
+  @ApiProperty({ example: ['https://app.example.com/callback'] })
+  redirectUris: string[];
+
+  @ApiProperty({ example: ['authorization_code', 'refresh_token'] })
+  grantTypes: string[];
+
+  @ApiProperty({ example: ['openid', 'email'] })
+  allowedScopes: string[];
+
+  @ApiProperty({ example: true })
+  confidential: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class CreatedOAuthClientDto extends OAuthClientDto {
+  @ApiPropertyOptional({
+    description:
+      'Only returned once at creation, only a hash of it is stored. Missing for public clients.',
+  })
+  clientSecret?: string;
+}
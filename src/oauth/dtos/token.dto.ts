@@ -0,0 +1,79 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class TokenRequestDto {
+  @ApiProperty({
+    description: 'authorization_code, refresh_token or client_credentials',
+    example: 'authorization_code',
+  })
+  @IsString()
+  grant_type: string;
+
+  @ApiPropertyOptional({ description: 'The code from the authorize redirect' })
+  @IsOptional()
+  @IsString()
+  code?: string;
+
+  @ApiPropertyOptional({
+    description: 'The redirect URI used in the authorization request',
+  })
+  @IsOptional()
+  @IsString()
+  redirect_uri?: string;
+
+  @ApiPropertyOptional({
+    description: 'The PKCE secret the code challenge was derived from',
+  })
+  @IsOptional()
+  @IsString()
+  code_verifier?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Space separated scopes for the client credentials grant, defaults to all allowed',
+  })
+  @IsOptional()
+  @IsString()
+  scope?: string;
+
+  @ApiPropertyOptional({ description: 'Refresh token for the refresh grant' })
+  @IsOptional()
+  @IsString()
+  refresh_token?: string;
+
+  @ApiPropertyOptional({
+    description: 'Client id, when not sent with HTTP Basic authentication',
+  })
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Client secret, when not sent with HTTP Basic authentication',
+  })
+  @IsOptional()
+  @IsString()
+  client_secret?: string;
+}
+
+export class TokenResponseDto {
+  @ApiProperty({ description: 'Access token for the granted scopes' })
+  access_token: string;
+
+  @ApiProperty({ example: 'Bearer' })
+  token_type: string;
+
+  @ApiProperty({ description: 'Lifetime of the access token in seconds' })
+  expires_in: number;
+
+  @ApiProperty({ example: 'openid email' })
+  scope: string;
+
+  @ApiPropertyOptional({ description: 'Issued when openid was granted' })
+  id_token?: string;
+
+  @ApiPropertyOptional({
+    description: 'Issued when offline_access was granted',
+  })
+  refresh_token?: string;
+}
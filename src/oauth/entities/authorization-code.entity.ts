@@ -0,0 +1,49 @@
+import { User } from '../../users/entities/user.entity';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  ManyToOne,
+} from 'typeorm';
+import { OAuthClient } from './oauth-client.entity';
+
+@Entity('oauth_authorization_codes')
+export class AuthorizationCode {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ length: 64 })
+  codeHash: string;
+
+  @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+  client: OAuthClient;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Column()
+  redirectUri: string;
+
+  @Column()
+  scope: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  nonce: string | null;
+
+  @Column()
+  codeChallenge: string; // Only S256 is accepted
+
+  @Column({ type: 'timestamp with time zone' })
+  authTime: Date;
+
+  @Column({ type: 'timestamp with time zone' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  usedAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  sessionId: string | null; // Session started by the exchange, revoked if the code is replayed
+}
@@ -0,0 +1,33 @@
+import { User } from '../../users/entities/user.entity';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { OAuthClient } from './oauth-client.entity';
+
+@Entity('oauth_consents')
+@Index(['user', 'client'], { unique: true })
+export class Consent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+  client: OAuthClient;
+
+  @Column('text', { array: true })
+  scopes: string[];
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone' })
+  updatedAt: Date;
+}
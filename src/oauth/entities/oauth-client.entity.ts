@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+
+@Entity('oauth_clients')
+export class OAuthClient {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column()
+  clientId: string;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  clientSecretHash: string | null; // Public clients such as SPAs and mobile apps have no secret
+
+  @Column()
+  name: string;
+
+  @Column('text', { array: true })
+  redirectUris: string[]; // Empty for service accounts, they never send a user anywhere
+
+  @Column('text', {
+    array: true,
+    default: () => "'{authorization_code,refresh_token}'",
+  })
+  grantTypes: string[];
+
+  @Column('text', { array: true })
+  allowedScopes: string[];
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt: Date;
+}
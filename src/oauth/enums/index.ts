@@ -0,0 +1,19 @@
+export enum OAuthScope {
+  OpenId = 'openid',
+  Email = 'email',
+  Phone = 'phone',
+  OfflineAccess = 'offline_access',
+}
+
+// Scopes for calling this API as a service account or with an API key
+export enum ApiScope {
+  UsersRead = 'users:read',
+  AccountRead = 'account:read',
+  AccountWrite = 'account:write',
+}
+
+export enum OAuthGrantType {
+  AuthorizationCode = 'authorization_code',
+  RefreshToken = 'refresh_token',
+  ClientCredentials = 'client_credentials',
+}
@@ -0,0 +1,16 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Response } from 'express';
+import { OAuthException } from './oauth.exception';
+
+@Catch(OAuthException)
+export class OAuthExceptionFilter implements ExceptionFilter {
+  catch(exception: OAuthException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+    const status = exception.getStatus();
+
+    if (status === 401) {
+      response.setHeader('WWW-Authenticate', 'Basic realm="oauth"');
+    }
+    response.status(status).json(exception.getResponse());
+  }
+}
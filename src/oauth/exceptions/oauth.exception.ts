@@ -0,0 +1,12 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+// Error in the format of RFC 6749 section 5.2, which OAuth clients know how to read
+export class OAuthException extends HttpException {
+  constructor(
+    error: string,
+    description: string,
+    status: HttpStatus = HttpStatus.BAD_REQUEST,
+  ) {
+    super({ error, error_description: description }, status);
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  BadRequestException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { CryptoService } from 'src/auth/crypto.service';
+import {
+  CreateOAuthClientDto,
+  CreatedOAuthClientDto,
+  OAuthClientDto,
+} from './dtos/oauth-client.dto';
+import { OAuthGrantType, OAuthScope } from './enums';
+import { OAuthException } from './exceptions/oauth.exception';
+
+@Injectable()
+export class OAuthClientsService {
+  private readonly logger = new Logger(OAuthClientsService.name);
+
+  constructor(
+    @InjectRepository(OAuthClient)
+    private readonly clientRepository: Repository<OAuthClient>,
+    private readonly cryptoService: CryptoService,
+  ) {}
+
+  async create(body: CreateOAuthClientDto): Promise<CreatedOAuthClientDto> {
+    const confidential = body.confidential ?? true;
+    const grantTypes = body.grantTypes ?? [
+      OAuthGrantType.AuthorizationCode,
+      OAuthGrantType.RefreshToken,
+    ];
+
+    // Service accounts have no user in front of them, the secret is all that proves who they are
+    if (
+      grantTypes.includes(OAuthGrantType.ClientCredentials) &&
+      !confidential
+    ) {
+      throw new BadRequestException(
+        'Clients using client_credentials must be confidential.',
+      );
+    }
+    const clientSecret = confidential
+      ? randomBytes(32).toString('base64url')
+      : undefined;
+
+    const client = await this.clientRepository.save(
+      this.clientRepository.create({
+        clientId: randomBytes(16).toString('base64url'),
+        clientSecretHash: clientSecret
+          ? this.cryptoService.hashToken(clientSecret)
+          : null,
+        name: body.name,
+        redirectUris: body.redirectUris ?? [],
+        grantTypes,
+        allowedScopes: body.allowedScopes ?? Object.values(OAuthScope),
+      }),
+    );
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'create-oauth-client',
+        clientId: client.clientId,
+        name: client.name,
+      }),
+    );
+
+    return { ...this.toDto(client), clientSecret };
+  }
+
+  async findAll(): Promise<OAuthClientDto[]> {
+    const clients = await this.clientRepository.find({
+      order: { createdAt: 'DESC' },
+    });
+    return clients.map((client) => this.toDto(client));
+  }
+
+  async findByClientId(clientId: string): Promise<OAuthClient | null> {
+    return await this.clientRepository.findOneBy({ clientId });
+  }
+
+  async remove(clientId: string): Promise<boolean> {
+    // Codes and consents of the client are removed with it
+    const { affected } = await this.clientRepository.delete({ clientId });
+    return affected > 0;
+  }
+
+  async authenticate(
+    clientId: string,
+    clientSecret?: string,
+  ): Promise<OAuthClient> {
+    const client = clientId ? await this.findByClientId(clientId) : null;
+
+    // Public clients prove themselves with PKCE instead of a secret
+    const isAuthenticated =
+      client &&
+      (!client.clientSecretHash ||
+        (!!clientSecret &&
+          this.cryptoService.compareTokenHash(
+            clientSecret,
+            client.clientSecretHash,
+          )));
+
+    if (!isAuthenticated) {
+      throw new OAuthException(
+        'invalid_client',
+        'Client authentication failed.',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+    return client;
+  }
+
+  async authenticateRequest(
+    credentials: { client_id?: string; client_secret?: string },
+    authorization?: string,
+  ): Promise<OAuthClient> {
+    const [clientId, clientSecret] = this.extractCredentials(
+      credentials,
+      authorization,
+    );
+    return await this.authenticate(clientId, clientSecret);
+  }
+
+  private extractCredentials(
+    credentials: { client_id?: string; client_secret?: string },
+    authorization?: string,
+  ): [string | undefined, string | undefined] {
+    // client_secret_basic, both parts are form encoded before being joined
+    if (authorization?.startsWith('Basic ')) {
+      const decoded = Buffer.from(authorization.slice(6), 'base64').toString();
+      const separator = decoded.indexOf(':');
+      try {
+        if (separator === -1) {
+          return [decodeURIComponent(decoded), undefined];
+        }
+        return [
+          decodeURIComponent(decoded.slice(0, separator)),
+          decodeURIComponent(decoded.slice(separator + 1)),
+        ];
+      } catch (error) {
+        // Malformed encoding fails like any other bad credentials
+        return [undefined, undefined];
+      }
+    }
+    return [credentials.client_id, credentials.client_secret];
+  }
+
+  private toDto(client: OAuthClient): OAuthClientDto {
+    return {
+      clientId: client.clientId,
+      name: client.name,
+      redirectUris: client.redirectUris,
+      grantTypes: client.grantTypes,
+      allowedScopes: client.allowedScopes,
+      confidential: !!client.clientSecretHash,
+      createdAt: client.createdAt,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  Res,
+  UseFilters,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { OAuthService } from './oauth.service';
+import { OAuthClientsService } from './oauth-clients.service';
+import { TokenIntrospectionService } from './token-introspection.service';
+import {
+  AuthorizeDecorator,
+  AuthorizeRedirectDecorator,
+  CreateOAuthClientDecorator,
+  DeleteOAuthClientDecorator,
+  GetOAuthClientsDecorator,
+  IntrospectDecorator,
+  RevokeDecorator,
+  TokenDecorator,
+  UserInfoDecorator,
+} from './decorators';
+import {
+  AuthorizeDto,
+  AuthorizeQueryDto,
+  AuthorizeResponseDto,
+} from './dtos/authorize.dto';
+import { TokenRequestDto, TokenResponseDto } from './dtos/token.dto';
+import {
+  IntrospectionResponseDto,
+  TokenHintRequestDto,
+} from './dtos/introspection.dto';
+import {
+  CreateOAuthClientDto,
+  CreatedOAuthClientDto,
+  OAuthClientDto,
+} from './dtos/oauth-client.dto';
+import { OAuthExceptionFilter } from './exceptions/oauth-exception.filter';
+import { CurrentUser } from 'src/users/decorators/current-user.decorator';
+import {
+  ClientInfo,
+  CurrentClient,
+} from 'src/auth/decorators/current-client.decorator';
+
+@ApiTags('oauth')
+@UseFilters(OAuthExceptionFilter)
+@Controller('oauth')
+export class OAuthController {
+  constructor(
+    private readonly oauthService: OAuthService,
+    private readonly oauthClientsService: OAuthClientsService,
+    private readonly tokenIntrospectionService: TokenIntrospectionService,
+  ) {}
+
+  @AuthorizeRedirectDecorator()
+  @Get('authorize')
+  async authorizeRedirect(
+    @Query() query: AuthorizeQueryDto,
+    @Res() response: Response,
+  ) {
+    return response.redirect(await this.oauthService.getLoginRedirect(query));
+  }
+
+  @AuthorizeDecorator()
+  @HttpCode(HttpStatus.OK)
+  @Post('authorize')
+  async authorize(
+    @CurrentUser() user: any,
+    @Body() body: AuthorizeDto,
+  ): Promise<AuthorizeResponseDto> {
+    return await this.oauthService.authorize(user, body);
+  }
+
+  @TokenDecorator()
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  @Post('token')
+  async token(
+    @Body() body: TokenRequestDto,
+    @Headers('authorization') authorization: string,
+    @CurrentClient() client: ClientInfo,
+  ): Promise<TokenResponseDto> {
+    return await this.oauthService.exchangeToken(body, authorization, client);
+  }
+
+  @IntrospectDecorator()
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  @Post('introspect')
+  async introspect(
+    @Body() body: TokenHintRequestDto,
+    @Headers('authorization') authorization: string,
+  ): Promise<IntrospectionResponseDto> {
+    const client = await this.oauthClientsService.authenticateRequest(
+      body,
+      authorization,
+    );
+    return await this.tokenIntrospectionService.introspect(
+      client,
+      body.token,
+      body.token_type_hint,
+    );
+  }
+
+  @RevokeDecorator()
+  @HttpCode(HttpStatus.OK)
+  @Post('revoke')
+  async revoke(
+    @Body() body: TokenHintRequestDto,
+    @Headers('authorization') authorization: string,
+  ): Promise<void> {
+    const client = await this.oauthClientsService.authenticateRequest(
+      body,
+      authorization,
+    );
+    await this.tokenIntrospectionService.revoke(client, body.token);
+  }
+
+  @UserInfoDecorator()
+  @Get('userinfo')
+  getUserInfo(@CurrentUser() user: any) {
+    return this.oauthService.getUserInfo(user);
+  }
+
+  @CreateOAuthClientDecorator()
+  @Post('clients')
+  async createClient(
+    @Body() body: CreateOAuthClientDto,
+  ): Promise<CreatedOAuthClientDto> {
+    return await this.oauthClientsService.create(body);
+  }
+
+  @GetOAuthClientsDecorator()
+  @Get('clients')
+  async getClients(): Promise<OAuthClientDto[]> {
+    return await this.oauthClientsService.findAll();
+  }
+
+  @DeleteOAuthClientDecorator()
+  @Delete('clients/:clientId')
+  async deleteClient(
+    @Param('clientId') clientId: string,
+  ): Promise<{ message: string }> {
+    const deleted = await this.oauthClientsService.remove(clientId);
+    if (!deleted) {
+      throw new NotFoundException('Client not found.');
+    }
+    return { message: 'Client has been deleted.' };
+  }
+}
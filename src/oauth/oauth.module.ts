@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { AuthModule } from 'src/auth/auth.module';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { AuthorizationCode } from './entities/authorization-code.entity';
+import { Consent } from './entities/consent.entity';
+import { OAuthController } from './oauth.controller';
+import { DiscoveryController } from './discovery.controller';
+import { OAuthService } from './oauth.service';
+import { OAuthClientsService } from './oauth-clients.service';
+import { TokenIntrospectionService } from './token-introspection.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([OAuthClient, AuthorizationCode, Consent]),
+    ConfigModule,
+    AuthModule,
+  ],
+  controllers: [OAuthController, DiscoveryController],
+  providers: [OAuthService, OAuthClientsService, TokenIntrospectionService],
+})
+export class OAuthModule {}
@@ -0,0 +1,533 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { AuthorizationCode } from './entities/authorization-code.entity';
+import { Consent } from './entities/consent.entity';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthException } from './exceptions/oauth.exception';
+import { OAuthGrantType, OAuthScope } from './enums';
+import {
+  AuthorizeDto,
+  AuthorizeQueryDto,
+  AuthorizeResponseDto,
+} from './dtos/authorize.dto';
+import { TokenRequestDto, TokenResponseDto } from './dtos/token.dto';
+import { TokenService } from 'src/auth/token.service';
+import { CryptoService } from 'src/auth/crypto.service';
+import { SIGNING_ALGORITHMS } from 'src/auth/key-ring.service';
+import { ClientInfo } from 'src/auth/decorators/current-client.decorator';
+import { User, UserStatus } from 'src/users/entities/user.entity';
+import {
+  ACCESS_TOKEN_TTL,
+  API_PREFIX,
+  AUTHORIZATION_CODE_TTL,
+  CLIENT_ACCESS_TOKEN_TTL,
+} from 'src/common/constants';
+
+type AuthorizationError = { error: string; error_description: string };
+
+@Injectable()
+export class OAuthService {
+  private readonly logger = new Logger(OAuthService.name);
+
+  constructor(
+    @InjectRepository(AuthorizationCode)
+    private readonly codeRepository: Repository<AuthorizationCode>,
+    @InjectRepository(Consent)
+    private readonly consentRepository: Repository<Consent>,
+    private readonly oauthClientsService: OAuthClientsService,
+    private readonly tokenService: TokenService,
+    private readonly cryptoService: CryptoService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getLoginRedirect(query: AuthorizeQueryDto): Promise<string> {
+    const client = await this.findClientForRequest(query);
+
+    const error = this.validateAuthorizationRequest(query, client);
+    if (error) {
+      return this.buildRedirectUrl(query.redirect_uri, {
+        ...error,
+        state: query.state,
+      });
+    }
+
+    // The login UI signs the user in with the regular auth endpoints and then posts the request back
+    const loginUrl = new URL(this.configService.get<string>('OAUTH_LOGIN_URL'));
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) loginUrl.searchParams.set(key, value);
+    });
+    return loginUrl.toString();
+  }
+
+  async authorize(
+    user: any,
+    body: AuthorizeDto,
+  ): Promise<AuthorizeResponseDto> {
+    const client = await this.findClientForRequest(body);
+
+    const error = this.validateAuthorizationRequest(body, client);
+    if (error) {
+      return {
+        redirectUrl: this.buildRedirectUrl(body.redirect_uri, {
+          ...error,
+          state: body.state,
+        }),
+      };
+    }
+
+    if (body.approve === false) {
+      return {
+        redirectUrl: this.buildRedirectUrl(body.redirect_uri, {
+          error: 'access_denied',
+          error_description: 'The user denied the request.',
+          state: body.state,
+        }),
+      };
+    }
+
+    // Consent is remembered per client, only scopes that were not approved before are asked again
+    const scopes = this.parseScopes(body.scope);
+    const consent = await this.consentRepository.findOne({
+      where: { user: { id: user.id }, client: { id: client.id } },
+    });
+    const hasConsent =
+      !!consent && scopes.every((scope) => consent.scopes.includes(scope));
+
+    if (!hasConsent && body.approve !== true) {
+      return { consentRequired: true, clientName: client.name, scopes };
+    }
+    if (!hasConsent) {
+      await this.consentRepository.save({
+        ...consent,
+        user: { id: user.id },
+        client,
+        scopes: [...new Set([...(consent?.scopes ?? []), ...scopes])],
+      });
+    }
+
+    // auth_time is when the user actually logged in, which is when the session started
+    const session = user.sessionId
+      ? await this.tokenService.findSession(user.id, user.sessionId)
+      : null;
+
+    const code = randomBytes(32).toString('base64url');
+    await this.codeRepository.save(
+      this.codeRepository.create({
+        codeHash: this.cryptoService.hashToken(code),
+        client,
+        user: { id: user.id },
+        redirectUri: body.redirect_uri,
+        scope: scopes.join(' '),
+        nonce: body.nonce ?? null,
+        codeChallenge: body.code_challenge,
+        authTime: session?.createdAt ?? new Date(),
+        expiresAt: new Date(Date.now() + AUTHORIZATION_CODE_TTL * 1000),
+      }),
+    );
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'oauth-authorize',
+        userId: user.id,
+        clientId: client.clientId,
+        scope: scopes.join(' '),
+      }),
+    );
+
+    return {
+      redirectUrl: this.buildRedirectUrl(body.redirect_uri, {
+        code,
+        state: body.state,
+      }),
+    };
+  }
+
+  async exchangeToken(
+    body: TokenRequestDto,
+    authorization: string | undefined,
+    clientInfo: ClientInfo,
+  ): Promise<TokenResponseDto> {
+    const client = await this.oauthClientsService.authenticateRequest(
+      body,
+      authorization,
+    );
+
+    const grantTypes: string[] = Object.values(OAuthGrantType);
+    if (
+      grantTypes.includes(body.grant_type) &&
+      !client.grantTypes.includes(body.grant_type)
+    ) {
+      throw new OAuthException(
+        'unauthorized_client',
+        `The client may not use the ${body.grant_type} grant.`,
+      );
+    }
+
+    switch (body.grant_type) {
+      case OAuthGrantType.AuthorizationCode:
+        return await this.exchangeAuthorizationCode(client, body, clientInfo);
+      case OAuthGrantType.RefreshToken:
+        return await this.exchangeRefreshToken(client, body, clientInfo);
+      case OAuthGrantType.ClientCredentials:
+        return await this.exchangeClientCredentials(client, body);
+      default:
+        throw new OAuthException(
+          'unsupported_grant_type',
+          `Grant type ${body.grant_type} is not supported.`,
+        );
+    }
+  }
+
+  getUserInfo(user: any): Record<string, unknown> {
+    return { sub: user.id, ...this.getUserClaims(user, user.scopes) };
+  }
+
+  getDiscoveryDocument() {
+    const issuer = this.configService.get<string>('OAUTH_ISSUER');
+    const baseUrl = `${issuer}/${API_PREFIX}/oauth`;
+
+    return {
+      issuer,
+      authorization_endpoint: `${baseUrl}/authorize`,
+      token_endpoint: `${baseUrl}/token`,
+      userinfo_endpoint: `${baseUrl}/userinfo`,
+      introspection_endpoint: `${baseUrl}/introspect`,
+      revocation_endpoint: `${baseUrl}/revoke`,
+      jwks_uri: `${issuer}/.well-known/jwks.json`,
+      scopes_supported: Object.values(OAuthScope),
+      response_types_supported: ['code'],
+      grant_types_supported: Object.values(OAuthGrantType),
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: SIGNING_ALGORITHMS,
+      token_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      introspection_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+      ],
+      revocation_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      code_challenge_methods_supported: ['S256'],
+      claims_supported: [
+        'sub',
+        'iss',
+        'aud',
+        'exp',
+        'iat',
+        'auth_time',
+        'nonce',
+        'sid',
+        'email',
+        'email_verified',
+        'phone_number',
+        'phone_number_verified',
+      ],
+    };
+  }
+
+  private async exchangeAuthorizationCode(
+    client: OAuthClient,
+    body: TokenRequestDto,
+    clientInfo: ClientInfo,
+  ): Promise<TokenResponseDto> {
+    if (!body.code || !body.code_verifier) {
+      throw new OAuthException(
+        'invalid_request',
+        'code and code_verifier are required.',
+      );
+    }
+
+    const code = await this.codeRepository.findOne({
+      where: { codeHash: this.cryptoService.hashToken(body.code) },
+      relations: ['client', 'user'],
+    });
+    if (!code || code.client.id !== client.id || code.expiresAt < new Date()) {
+      throw new OAuthException(
+        'invalid_grant',
+        'The authorization code is invalid or has expired.',
+      );
+    }
+
+    // A code can be exchanged once, a replay revokes whatever the first exchange handed out
+    const { affected } = await this.codeRepository.update(
+      { id: code.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!affected) {
+      this.logger.warn(
+        JSON.stringify({
+          action: 'authorization-code-reuse',
+          userId: code.user.id,
+          clientId: client.clientId,
+          sessionId: code.sessionId,
+        }),
+      );
+      if (code.sessionId) {
+        await this.tokenService.revokeSession(code.user.id, code.sessionId);
+      }
+      throw new OAuthException(
+        'invalid_grant',
+        'The authorization code has already been used.',
+      );
+    }
+
+    if (body.redirect_uri !== code.redirectUri) {
+      throw new OAuthException(
+        'invalid_grant',
+        'redirect_uri does not match the authorization request.',
+      );
+    }
+    if (!this.verifyCodeChallenge(body.code_verifier, code.codeChallenge)) {
+      throw new OAuthException('invalid_grant', 'PKCE verification failed.');
+    }
+    if (
+      code.user.status === UserStatus.Inactive ||
+      code.user.status === UserStatus.Deleted ||
+      code.user.status === UserStatus.Blocked
+    ) {
+      throw new OAuthException('invalid_grant', 'The account is not active.');
+    }
+
+    // The application gets a session of its own, so the user can see and revoke it like a device
+    const session = await this.tokenService.createSession(
+      code.user,
+      { ...clientInfo, deviceName: client.name },
+      { clientId: client.clientId, scope: code.scope },
+    );
+    await this.codeRepository.update(code.id, { sessionId: session.id });
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'oauth-token',
+        userId: code.user.id,
+        clientId: client.clientId,
+        grantType: OAuthGrantType.AuthorizationCode,
+      }),
+    );
+
+    return await this.issueTokens(code.user, session.id, client, code.scope, {
+      auth_time: Math.floor(code.authTime.getTime() / 1000),
+      ...(code.nonce && { nonce: code.nonce }),
+    });
+  }
+
+  private async exchangeRefreshToken(
+    client: OAuthClient,
+    body: TokenRequestDto,
+    clientInfo: ClientInfo,
+  ): Promise<TokenResponseDto> {
+    if (!body.refresh_token) {
+      throw new OAuthException('invalid_request', 'refresh_token is required.');
+    }
+
+    let user: Awaited<ReturnType<TokenService['validateToken']>>;
+    try {
+      this.tokenService.verifyRefreshToken(body.refresh_token);
+      user = await this.tokenService.validateToken(
+        body.refresh_token,
+        clientInfo,
+        client.clientId,
+      );
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        throw new OAuthException(
+          'invalid_grant',
+          'The refresh token is invalid or has expired.',
+        );
+      }
+      throw error;
+    }
+
+    return await this.issueTokens(
+      user,
+      user.sessionId,
+      client,
+      user.grant.scope,
+      {},
+      user.refreshTokenId,
+    );
+  }
+
+  private async exchangeClientCredentials(
+    client: OAuthClient,
+    body: TokenRequestDto,
+  ): Promise<TokenResponseDto> {
+    // OpenID Connect scopes are about a user, a service account cannot hold them
+    const userScopes: string[] = Object.values(OAuthScope);
+    const scopes = body.scope
+      ? this.parseScopes(body.scope)
+      : client.allowedScopes.filter((scope) => !userScopes.includes(scope));
+
+    if (
+      scopes.some((scope) => userScopes.includes(scope)) ||
+      !scopes.every((scope) => client.allowedScopes.includes(scope))
+    ) {
+      throw new OAuthException(
+        'invalid_scope',
+        'The requested scope is not allowed for this client.',
+      );
+    }
+
+    const scope = scopes.join(' ');
+    const accessToken = await this.tokenService.createClientAccessToken(
+      client.clientId,
+      scope,
+    );
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'oauth-token',
+        clientId: client.clientId,
+        grantType: OAuthGrantType.ClientCredentials,
+        scope,
+      }),
+    );
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: CLIENT_ACCESS_TOKEN_TTL,
+      scope,
+    };
+  }
+
+  private async issueTokens(
+    user: User,
+    sessionId: string,
+    client: OAuthClient,
+    scope: string,
+    idTokenClaims: Record<string, unknown>,
+    parentRefreshTokenId?: string,
+  ): Promise<TokenResponseDto> {
+    const scopes = scope.split(' ');
+    const response: TokenResponseDto = {
+      access_token: await this.tokenService.createAccessToken(user, sessionId, {
+        clientId: client.clientId,
+        scope,
+      }),
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL,
+      scope,
+    };
+
+    if (scopes.includes(OAuthScope.OpenId)) {
+      response.id_token = await this.tokenService.createIdToken(
+        user,
+        client.clientId,
+        {
+          ...this.getUserClaims(user, scopes),
+          ...idTokenClaims,
+          sid: sessionId,
+        },
+      );
+    }
+    if (scopes.includes(OAuthScope.OfflineAccess)) {
+      response.refresh_token = await this.tokenService.createRefreshToken(
+        user,
+        sessionId,
+        parentRefreshTokenId,
+      );
+    }
+    return response;
+  }
+
+  private getUserClaims(user: User, scopes: string[]): Record<string, unknown> {
+    return {
+      ...(scopes.includes(OAuthScope.Email) && {
+        email: user.email,
+        email_verified: user.isEmailVerified,
+      }),
+      ...(scopes.includes(OAuthScope.Phone) && {
+        phone_number: user.phoneNumber,
+        phone_number_verified: user.isPhoneVerified,
+      }),
+    };
+  }
+
+  // Without a known client and redirect URI there is nowhere safe to send an error, so these fail directly
+  private async findClientForRequest(
+    query: AuthorizeQueryDto,
+  ): Promise<OAuthClient> {
+    const client = await this.oauthClientsService.findByClientId(
+      query.client_id,
+    );
+    if (!client) {
+      throw new OAuthException('invalid_request', 'Unknown client_id.');
+    }
+    if (!client.redirectUris.includes(query.redirect_uri)) {
+      throw new OAuthException(
+        'invalid_request',
+        'redirect_uri is not registered for this client.',
+      );
+    }
+    return client;
+  }
+
+  private validateAuthorizationRequest(
+    query: AuthorizeQueryDto,
+    client: OAuthClient,
+  ): AuthorizationError | null {
+    if (!client.grantTypes.includes(OAuthGrantType.AuthorizationCode)) {
+      return {
+        error: 'unauthorized_client',
+        error_description:
+          'The client may not use the authorization code flow.',
+      };
+    }
+    if (query.response_type !== 'code') {
+      return {
+        error: 'unsupported_response_type',
+        error_description: 'Only the code response type is supported.',
+      };
+    }
+    if (!query.code_challenge || query.code_challenge_method !== 'S256') {
+      return {
+        error: 'invalid_request',
+        error_description: 'PKCE with code_challenge_method S256 is required.',
+      };
+    }
+
+    const scopes = this.parseScopes(query.scope);
+    if (
+      !scopes.length ||
+      !scopes.every((scope) => client.allowedScopes.includes(scope))
+    ) {
+      return {
+        error: 'invalid_scope',
+        error_description:
+          'The requested scope is not allowed for this client.',
+      };
+    }
+    return null;
+  }
+
+  private parseScopes(scope?: string): string[] {
+    return [...new Set((scope ?? '').split(' ').filter(Boolean))];
+  }
+
+  private buildRedirectUrl(
+    redirectUri: string,
+    params: Record<string, string | undefined>,
+  ): string {
+    const url = new URL(redirectUri);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) url.searchParams.set(key, value);
+    });
+    return url.toString();
+  }
+
+  private verifyCodeChallenge(verifier: string, challenge: string): boolean {
+    const hash = createHash('sha256').update(verifier).digest('base64url');
+    return hash === challenge;
+  }
+}
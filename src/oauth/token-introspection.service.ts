@@ -0,0 +1,184 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { TokenService } from 'src/auth/token.service';
+import {
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  PersonalAccessTokenService,
+} from 'src/auth/personal-access-token.service';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { OAuthException } from './exceptions/oauth.exception';
+import { IntrospectionResponseDto } from './dtos/introspection.dto';
+import { isClientPrincipal } from './client-principal';
+
+@Injectable()
+export class TokenIntrospectionService {
+  private readonly logger = new Logger(TokenIntrospectionService.name);
+
+  constructor(
+    private readonly tokenService: TokenService,
+    private readonly personalAccessTokenService: PersonalAccessTokenService,
+  ) {}
+
+  async introspect(
+    client: OAuthClient,
+    token: string,
+    tokenTypeHint?: string,
+  ): Promise<IntrospectionResponseDto> {
+    // Introspection reveals who a token belongs to, only resource servers holding a secret may ask
+    if (!client.clientSecretHash) {
+      throw new OAuthException(
+        'unauthorized_client',
+        'Only confidential clients can introspect tokens.',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    if (token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+      return await this.introspectApiKey(token);
+    }
+
+    // The hint only decides which kind is tried first
+    const lookups =
+      tokenTypeHint === 'refresh_token'
+        ? [this.introspectRefreshToken, this.introspectAccessToken]
+        : [this.introspectAccessToken, this.introspectRefreshToken];
+
+    for (const lookup of lookups) {
+      const result = await lookup.call(this, token);
+      if (result) {
+        return result;
+      }
+    }
+    return { active: false };
+  }
+
+  async revoke(client: OAuthClient, token: string): Promise<void> {
+    // Unknown tokens and tokens of other clients are ignored, the response must not tell them apart
+    const refreshToken = await this.tokenService.inspectRefreshToken(token);
+    if (refreshToken) {
+      if (refreshToken.session?.clientId === client.clientId) {
+        await this.revokeSession(
+          client,
+          refreshToken.user.id,
+          refreshToken.session.id,
+        );
+      }
+      return;
+    }
+
+    const payload = await this.tokenService.verifyAccessToken(token);
+    if (payload?.client_id !== client.clientId) {
+      return;
+    }
+
+    await this.tokenService.revokeAccessToken(payload.jti, payload.exp);
+    if (payload.sid) {
+      await this.revokeSession(client, payload.sub, payload.sid);
+    }
+  }
+
+  private async introspectAccessToken(
+    token: string,
+  ): Promise<IntrospectionResponseDto | null> {
+    const payload = await this.tokenService.verifyAccessToken(token);
+    if (!payload) {
+      return null;
+    }
+
+    // Same checks as JwtStrategy, so bans and password changes show up here too
+    const principal = await this.tokenService.resolveAccessToken(payload);
+    if (!principal) {
+      return null;
+    }
+
+    if (isClientPrincipal(principal)) {
+      return {
+        active: true,
+        token_type: 'access_token',
+        sub: principal.clientId,
+        client_id: principal.clientId,
+        scope: principal.scopes.join(' '),
+        exp: payload.exp,
+        iat: payload.iat,
+      };
+    }
+
+    // A revoked session ends the tokens issued for it
+    if (
+      principal.sessionId &&
+      !(await this.tokenService.findSession(principal.id, principal.sessionId))
+    ) {
+      return null;
+    }
+
+    return {
+      active: true,
+      token_type: 'access_token',
+      sub: principal.id,
+      username: principal.email,
+      client_id: principal.clientId ?? undefined,
+      scope: principal.clientId ? principal.scopes.join(' ') : undefined,
+      exp: payload.exp,
+      iat: payload.iat,
+      sid: principal.sessionId,
+    };
+  }
+
+  private async introspectRefreshToken(
+    token: string,
+  ): Promise<IntrospectionResponseDto | null> {
+    const refreshToken = await this.tokenService.inspectRefreshToken(token);
+    if (!refreshToken) {
+      return null;
+    }
+
+    return {
+      active: true,
+      token_type: 'refresh_token',
+      sub: refreshToken.user.id,
+      username: refreshToken.user.email,
+      client_id: refreshToken.session?.clientId ?? undefined,
+      scope: refreshToken.session?.scope ?? undefined,
+      // Postgres hands bigint columns back as strings
+      exp: Math.floor(Number(refreshToken.expiresIn) / 1000),
+      sid: refreshToken.session?.id,
+    };
+  }
+
+  private async introspectApiKey(
+    token: string,
+  ): Promise<IntrospectionResponseDto> {
+    const apiKey = await this.personalAccessTokenService.findActive(token);
+    if (!apiKey) {
+      return { active: false };
+    }
+
+    return {
+      active: true,
+      token_type: 'api_key',
+      sub: apiKey.user.id,
+      username: apiKey.user.email,
+      scope: apiKey.scopes.join(' '),
+      exp: apiKey.expiresAt
+        ? Math.floor(apiKey.expiresAt.getTime() / 1000)
+        : undefined,
+      iat: Math.floor(apiKey.createdAt.getTime() / 1000),
+    };
+  }
+
+  private async revokeSession(
+    client: OAuthClient,
+    userId: string,
+    sessionId: string,
+  ): Promise<void> {
+    await this.tokenService.revokeSession(userId, sessionId);
+
+    this.logger.log(
+      JSON.stringify({
+        action: 'oauth-revoke',
+        clientId: client.clientId,
+        userId,
+        sessionId,
+      }),
+    );
+  }
+}
@@ -13,6 +13,7 @@ import {
   ApiUnauthorizedResponse,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from 'src/guards/jwt-auth.guard';
+import { RecentAuthGuard } from 'src/guards/recent-auth.guard';
 import { LocalAuthGuard } from 'src/guards/local.guard';
 import { AdminGuard } from 'src/guards/admin.guard';
 import { User, UserRoles } from '../entities/user.entity';
@@ -24,15 +25,18 @@ import { RolesGuard } from 'src/guards/role.guard';
 import { Roles } from './roles.decorator';
 import { PaginatedUserDto } from '../dtos/paginated-users.dto';
 import { UpdateMeDto } from '../dtos/update-me.dto';
+import { Scopes } from 'src/oauth/decorators/scopes.decorator';
+import { ApiScope } from 'src/oauth/enums';
 
 export function GetAllUsersDecorator() {
   return applyDecorators(
     UseGuards(JwtAuthGuard, AdminGuard),
+    Scopes(ApiScope.UsersRead),
     ApiBearerAuth(),
     ApiOperation({
       summary: 'Get all users',
       description:
-        'This endpoint retrieves all user entries from the database. Only administrators can access this endpoint to view the full list of users.',
+        'This endpoint retrieves all user entries from the database. Only administrators, and service accounts with the users:read scope, can access this endpoint to view the full list of users.',
     }),
     ApiOkResponse({ description: 'Returns all users', type: PaginatedUserDto }),
     ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
@@ -54,6 +58,7 @@ export function GetCurrentUserDecorator() {
     }),
     ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
     UseGuards(JwtAuthGuard),
+    Scopes(ApiScope.AccountRead),
   );
 }
 
@@ -61,6 +66,7 @@ export function UpdateCurrentUserDecorator() {
   return applyDecorators(
     Serialize(UserDto),
     UseGuards(JwtAuthGuard),
+    Scopes(ApiScope.AccountWrite),
     ApiBearerAuth(),
     ApiOperation({
       summary: 'Update current user',
@@ -85,28 +91,29 @@ export function UpdateCurrentUserDecorator() {
 export function DeleteCurrentUserDecorator() {
   return applyDecorators(
     Serialize(UserDto),
-    UseGuards(JwtAuthGuard),
+    UseGuards(JwtAuthGuard, RecentAuthGuard),
     ApiBearerAuth(),
     ApiOperation({
       summary: 'Deactivate current user',
       description:
-        'This endpoint allows the currently authenticated user to deactivate their account. Deactivated accounts are not deleted and can be reactivated. The user must be authenticated with a valid JWT token.',
+        'This endpoint allows the currently authenticated user to deactivate their account. Deactivated accounts are not deleted and can be reactivated. The user must be authenticated with a valid JWT token, and must have signed in or re-authenticated at /auth/reauthenticate in the last 5 minutes.',
     }),
     ApiNoContentResponse({
       description: 'User has been deactivated',
     }),
-    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiUnauthorizedResponse(commonErrorResponses.reauthenticationRequired),
   );
 }
 
 export function GetUserByIdDecorator() {
   return applyDecorators(
     UseGuards(JwtAuthGuard, AdminGuard),
+    Scopes(ApiScope.UsersRead),
     ApiBearerAuth(),
     ApiOperation({
       summary: 'Get user by ID',
       description:
-        "This endpoint retrieves the user entry with the given ID from the database. Only administrators can access this endpoint to view other users' details. Details in this api are full user details so admin can access and edit all user details.",
+        "This endpoint retrieves the user entry with the given ID from the database. Only administrators, and service accounts with the users:read scope, can access this endpoint to view other users' details. Details in this api are full user details so admin can access and edit all user details.",
     }),
     ApiOkResponse({
       description: 'Returns the user with the given ID',
@@ -136,6 +143,24 @@ export function BanUserDecorator() {
   );
 }
 
+export function UnlockUserDecorator() {
+  return applyDecorators(
+    UseGuards(JwtAuthGuard, AdminGuard),
+    ApiBearerAuth(),
+    ApiOperation({
+      summary: 'Unlock a user',
+      description:
+        'This endpoint lifts the temporary lockout of an account after too many failed login attempts and resets its failed attempt count. Only administrators can access this endpoint.',
+    }),
+    ApiOkResponse({
+      description: 'The user can log in again',
+    }),
+    ApiNotFoundResponse(commonErrorResponses.notFound),
+    ApiUnauthorizedResponse(commonErrorResponses.unAuthorized),
+    ApiForbiddenResponse(commonErrorResponses.forbidden),
+  );
+}
+
 export function GetUserByEmailDecorator() {
   return applyDecorators(
     UseGuards(JwtAuthGuard, AdminGuard),
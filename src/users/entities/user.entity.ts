@@ -12,6 +12,7 @@ import {
   DeleteDateColumn,
 } from 'typeorm';
 import { RefreshToken } from '../../auth/entities/refresh-token.entity';
+import { Session } from '../../auth/entities/session.entity';
 import { Expose } from 'class-transformer';
 
 export enum UserStatus {
@@ -23,6 +24,12 @@ export enum UserStatus {
   Deleted = 'deleted',
 }
 
+export enum TwoFactorMethod {
+  Email = 'email',
+  Totp = 'totp',
+  Sms = 'sms',
+}
+
 export enum UserRoles {
   User = 'user',
   Admin = 'admin',
@@ -44,12 +51,23 @@ export class User {
   phoneNumber: string;
 
   @Column({ nullable: true })
-  googleId: string | null;
+  googleId: string | null; // Replaced by linked identities, kept so earlier Google users can still sign in
+
+  @Column({ nullable: true })
+  appleId: string | null; // The sub of the Apple identity token, the email can be a private relay address
+
+  @Expose()
+  @Column({ nullable: true })
+  firstName: string | null;
+
+  @Expose()
+  @Column({ nullable: true })
+  lastName: string | null;
 
   @Column({
     nullable: false,
     type: 'enum',
-    enum: ['google', 'apple', 'none'],
+    enum: ['google', 'apple', 'github', 'microsoft', 'gitlab', 'none'],
     default: 'none',
   })
   provider: string;
@@ -79,6 +97,9 @@ export class User {
   })
   refreshTokens: RefreshToken[];
 
+  @OneToMany(() => Session, (session) => session.user)
+  sessions: Session[];
+
   @Column({ default: 0 })
   tokenVersion: number;
 
@@ -98,24 +119,62 @@ export class User {
   @Column({ nullable: true })
   twoFactorAuthTokenExpiry: Date;
 
+  @Column({ default: 0 })
+  twoFactorAuthAttempts: number; // Guesses at the current code, it is burnt after too many
+
+  @Expose()
+  @Column({
+    type: 'enum',
+    enum: TwoFactorMethod,
+    default: TwoFactorMethod.Email,
+  })
+  twoFactorMethod: TwoFactorMethod;
+
+  @Column({ nullable: true })
+  totpSecret: string | null; // Encrypted, the authenticator app shares it so it cannot be hashed
+
+  @Column({ nullable: true })
+  pendingTotpSecret: string | null; // Waits here until the first code confirms the app was set up
+
+  @Column({ type: 'int', nullable: true })
+  totpLastUsedStep: number | null; // Each code is accepted once
+
+  @Column({ default: 0 })
+  secondFactorAttempts: number; // Wrong authenticator or recovery codes in a row, the account is locked after too many
+
   @Column({ nullable: true })
   verifyEmailToken: string;
 
   @Column({ nullable: true })
   verifyEmailExpires: Date;
 
+  @Column({ default: 0 })
+  verifyEmailAttempts: number;
+
   @Column({ nullable: true })
   verifyPhoneToken: string;
 
   @Column({ nullable: true })
   verifyPhoneExpires: Date;
 
+  @Column({ default: 0 })
+  verifyPhoneAttempts: number;
+
   @Column({ nullable: true })
   passwordResetCode: string;
 
   @Column({ nullable: true })
   passwordResetExpires: Date;
 
+  @Column({ default: 0 })
+  failedLoginAttempts: number; // Wrong passwords since the last successful login or lockout
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  lastFailedLoginAt: Date | null;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  lockedUntil: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -8,7 +8,6 @@ import {
   Delete,
   NotFoundException,
   Post,
-  UseGuards,
 } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { CurrentUser } from './decorators/current-user.decorator';
@@ -22,6 +21,7 @@ import {
   GetCurrentUserDecorator,
   GetUserByIdDecorator,
   HardDeleteUserByIdDecorator,
+  UnlockUserDecorator,
   UpdateCurrentUserDecorator,
   UpdateUserByIdDecorator,
 } from './decorators';
@@ -30,7 +30,6 @@ import { UsersQueryDto } from './dtos/user-query.dto';
 import { Serialize } from 'src/common/interceptors/serialize.interceptor';
 import { PaginatedUserDto } from './dtos/paginated-users.dto';
 import { UserDto } from './dtos/user.dto';
-import { AuthGuard } from '@nestjs/passport';
 
 @Serialize(User)
 @ApiTags('users')
@@ -46,7 +45,6 @@ export class UsersController {
   }
 
   @GetCurrentUserDecorator()
-  @UseGuards(AuthGuard('jwt'))
   @Get('/me')
   getMe(@CurrentUser() user: any): User {
     return user;
@@ -73,6 +71,12 @@ export class UsersController {
     return await this.usersService.banUser(userId);
   }
 
+  @UnlockUserDecorator()
+  @Patch('/unlock/:userId')
+  async unlockUser(@Param('userId') userId: string) {
+    return await this.usersService.unlock(userId);
+  }
+
   @GetUserByIdDecorator()
   @Get('/:userId')
   async findUser(@Param('userId') userId: string): Promise<User> {
@@ -4,9 +4,10 @@ import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 import { User } from './entities/user.entity';
 import { RefreshToken } from 'src/auth/entities/refresh-token.entity';
+import { Session } from 'src/auth/entities/session.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User, RefreshToken])],
+  imports: [TypeOrmModule.forFeature([User, RefreshToken, Session])],
   controllers: [UsersController],
   providers: [UsersService],
   exports: [UsersService],
@@ -4,19 +4,27 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { User, UserRoles, UserStatus } from './entities/user.entity';
 import { AdminUpdateUserDto, UpdateUserDto } from './dtos/update-user.dto';
 import { RefreshToken } from 'src/auth/entities/refresh-token.entity';
+import { Session } from 'src/auth/entities/session.entity';
 import { UsersQueryDto } from './dtos/user-query.dto';
 import { SortOrder } from 'src/common/enums';
 import { Cache } from 'cache-manager';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { PaginatedUserDto } from './dtos/paginated-users.dto';
 
-export type GoogleProfile = {
+export type SocialUserProfile = {
   email: string;
-  googleId: string;
-  picture: string;
-  displayName: string;
-  isActivatedWithEmail: boolean;
-  firstName: string;
+  firstName: string | null;
+  lastName: string | null;
+  isEmailVerified: boolean;
+  provider: string;
+};
+
+export type AppleProfile = {
+  email: string;
+  appleId: string;
+  firstName: string | null;
+  lastName: string | null;
+  isEmailVerified: boolean;
   provider: string;
 };
 
@@ -28,6 +36,8 @@ export class UsersService {
     @InjectRepository(User) private repo: Repository<User>,
     @InjectRepository(RefreshToken)
     private refreshTokenRepo: Repository<RefreshToken>,
+    @InjectRepository(Session)
+    private sessionRepo: Repository<Session>,
     @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
   ) {}
 
@@ -123,13 +133,24 @@ export class UsersService {
     }
   }
 
-  // Finds a user by their Google ID
+  // Finds a user by their Google ID, only set for users who signed up before linked identities
   async findByGoogleId(googleId: string): Promise<User | null> {
     return await this.repo.findOneBy({ googleId });
   }
 
-  // Creates a new user from a Google profile
-  async createFromGoogle(profile: GoogleProfile): Promise<User> {
+  // Creates a new user from a social login provider's profile, the provider account is linked separately
+  async createFromSocialProfile(profile: SocialUserProfile): Promise<User> {
+    const user = this.repo.create(profile);
+    return await this.repo.save(user);
+  }
+
+  // Finds a user by their Apple subject ID
+  async findByAppleId(appleId: string): Promise<User | null> {
+    return await this.repo.findOneBy({ appleId });
+  }
+
+  // Creates a new user from a Sign in with Apple identity
+  async createFromApple(profile: AppleProfile): Promise<User> {
     const user = this.repo.create(profile);
     return await this.repo.save(user);
   }
@@ -166,7 +187,9 @@ export class UsersService {
   }
 
   async update(id: string, updateData: Partial<User>): Promise<any> {
-    return await this.repo.update(id, updateData);
+    const result = await this.repo.update(id, updateData);
+    await this.cacheManager.del(`${this.userCachePrefix}${id}`);
+    return result;
   }
 
   // Removes a user from the database
@@ -193,6 +216,19 @@ export class UsersService {
     return await this.repo.findOneBy({ passwordResetCode });
   }
 
+  // Clears the reset token, returns false when another request already used it
+  async claimResetToken(
+    id: string,
+    passwordResetCode: string,
+  ): Promise<boolean> {
+    const { affected } = await this.repo.update(
+      { id, passwordResetCode },
+      { passwordResetCode: null, passwordResetExpires: null },
+    );
+    await this.cacheManager.del(`${this.userCachePrefix}${id}`);
+    return affected > 0;
+  }
+
   async banUser(id: string): Promise<void> {
     // Retrieve the user from the database
     const user = await this.repo.findOneBy({ id });
@@ -206,10 +242,51 @@ export class UsersService {
     user.tokenVersion += 1;
     await this.repo.save(user);
 
-    // Delete refresh tokens
+    // The cached copy would keep the old status and tokenVersion accepted until it expires
+    await this.cacheManager.del(`${this.userCachePrefix}${id}`);
+
+    // Delete sessions and refresh tokens
+    await this.sessionRepo.delete({ user: { id: user.id } });
     await this.refreshTokenRepo.delete({ user: user });
   }
 
+  // The increment runs in the database, so parallel guesses are all counted
+  async recordFailedLogin(id: string): Promise<number> {
+    await this.repo.increment({ id }, 'failedLoginAttempts', 1);
+    await this.repo.update(id, { lastFailedLoginAt: new Date() });
+
+    const { failedLoginAttempts } = await this.repo.findOne({
+      where: { id },
+      select: ['id', 'failedLoginAttempts'],
+    });
+    return failedLoginAttempts;
+  }
+
+  async countOtpAttempt(
+    id: string,
+    field:
+      | 'twoFactorAuthAttempts'
+      | 'verifyEmailAttempts'
+      | 'verifyPhoneAttempts'
+      | 'secondFactorAttempts',
+  ): Promise<User | null> {
+    await this.repo.increment({ id }, field, 1);
+    return await this.repo.findOneBy({ id });
+  }
+
+  async unlock(id: string): Promise<void> {
+    // Through update() so the cached user does not keep the lockout
+    const { affected } = await this.update(id, {
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+      secondFactorAttempts: 0,
+    });
+    if (!affected) {
+      throw new NotFoundException('User not found');
+    }
+  }
+
   async assignRole(userId: string, role: UserRoles): Promise<void> {
     const user = await this.repo.findOneBy({ id: userId });
     if (!user) {